@@ -0,0 +1,132 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { validateTaskJSON } from '@/lib/taskValidator'
+import { runBashGrader } from '@/lib/bashGrader'
+import type { GraderResult } from '@/lib/grader'
+import {
+  gradeResponses,
+  parseResponsesJsonl,
+  resultsToCsv,
+  summaryToCsv,
+  type TaskGradingSummary,
+} from '@/lib/offlineGrading'
+import type { BulkTaskUpload } from '@/types/database'
+
+const USAGE = `Usage: npm run grade-responses -- --tasks <tasks.json> --responses <responses.jsonl> [--out <dir>] [--no-bash]
+
+Grades each response with the graders of the task it names and writes to --out
+(default ./grading-results):
+  results.json / results.csv   one entry per response
+  summary.json / summary.csv   per-task and overall scores
+
+  --tasks       Task JSON as exported from the admin Export Tasks page
+  --responses   One JSON object per line: {"task": "<task name>", "response": "<text>" | {form answers}, "id"?: "<label>"}
+  --no-bash     Skip bash graders instead of running their scripts (scores leave them out; rows are marked partial)
+`
+
+interface CliOptions {
+  tasks: string
+  responses: string
+  out: string
+  runBash: boolean
+}
+
+async function main(argv: string[]): Promise<number> {
+  const options = parseArgs(argv)
+  if (!options) {
+    console.error(USAGE)
+    return 1
+  }
+
+  let upload: BulkTaskUpload
+  try {
+    upload = JSON.parse(await readFile(options.tasks, 'utf-8'))
+  } catch (error) {
+    console.error(`Cannot read tasks from ${options.tasks}: ${error instanceof Error ? error.message : error}`)
+    return 1
+  }
+
+  const validation = validateTaskJSON(upload)
+  if (!validation.isValid) {
+    console.error(`${options.tasks} has ${validation.criticalCount + validation.errorCount} validation error(s):`)
+    validation.issues
+      .filter(issue => issue.severity === 'CRITICAL' || issue.severity === 'ERROR')
+      .forEach(issue => console.error(`  [${issue.severity}] ${issue.path}: ${issue.message}`))
+    return 1
+  }
+
+  let responsesText: string
+  try {
+    responsesText = await readFile(options.responses, 'utf-8')
+  } catch (error) {
+    console.error(`Cannot read responses from ${options.responses}: ${error instanceof Error ? error.message : error}`)
+    return 1
+  }
+
+  const { records, errors: parseErrors } = parseResponsesJsonl(responsesText)
+  parseErrors.forEach(error => console.warn(`${options.responses}:${error.line}: ${error.message}`))
+
+  const report = await gradeResponses(upload.tasks, records, {
+    bashExecutor: options.runBash ? (text, grader) => runBashGrader(text, grader) : skipBashGrader,
+  })
+
+  await mkdir(options.out, { recursive: true })
+  await Promise.all([
+    writeFile(path.join(options.out, 'results.json'), JSON.stringify({ results: report.results, parseErrors }, null, 2)),
+    writeFile(path.join(options.out, 'results.csv'), resultsToCsv(report.results)),
+    writeFile(path.join(options.out, 'summary.json'), JSON.stringify({ tasks: report.tasks, overall: report.overall }, null, 2)),
+    writeFile(path.join(options.out, 'summary.csv'), summaryToCsv(report)),
+  ])
+
+  report.tasks.forEach(summary => console.log(formatSummary(summary)))
+  console.log(formatSummary(report.overall))
+  console.log(`\nWrote results for ${report.results.length} response(s) to ${options.out}`)
+  return 0
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  const options: Partial<CliOptions> = { out: 'grading-results', runBash: true }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--no-bash') {
+      options.runBash = false
+    } else if (arg === '--tasks' || arg === '--responses' || arg === '--out') {
+      const value = argv[++i]
+      if (!value) return null
+      options[arg.slice(2) as 'tasks' | 'responses' | 'out'] = value
+    } else {
+      return null
+    }
+  }
+
+  return options.tasks && options.responses ? (options as CliOptions) : null
+}
+
+// Skipped graders are left out of the totals and the response is marked partial, as in the grader playground
+async function skipBashGrader(_responseText: string, grader: { name: string }): Promise<GraderResult> {
+  return {
+    graderName: grader.name,
+    score: 0,
+    maxScore: 0,
+    passed: false,
+    skipped: true,
+    details: { skipped: 'Bash graders are skipped with --no-bash' },
+  }
+}
+
+function formatSummary(summary: TaskGradingSummary): string {
+  const name = summary.task === '*' ? 'Overall' : summary.task
+  const mean = summary.meanScore === null ? '—' : `${summary.meanScore.toFixed(1)}%`
+  const passRate = summary.passRate === null ? '—' : `${(summary.passRate * 100).toFixed(0)}%`
+  const errors = summary.errors > 0 ? `, ${summary.errors} error(s)` : ''
+  return `${name}: ${summary.graded}/${summary.responses} graded, mean ${mean}, pass rate ${passRate}${errors}`
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error)
+    process.exit(1)
+  }
+)
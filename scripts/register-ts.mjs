@@ -0,0 +1,5 @@
+// Lets Node run the TypeScript scripts in this folder (and the src modules they import)
+// without a build step: node --import ./scripts/register-ts.mjs scripts/<script>.ts
+import { register } from 'node:module'
+
+register('./ts-hooks.mjs', import.meta.url)
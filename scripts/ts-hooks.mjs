@@ -0,0 +1,43 @@
+// Module hooks for register-ts.mjs: resolves the "@/" path alias and extensionless
+// imports to src files, and strips types from .ts files with the TypeScript compiler.
+import { existsSync, statSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import ts from 'typescript'
+
+const SRC_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../src')
+const CANDIDATE_SUFFIXES = ['', '.ts', '.tsx', '/index.ts']
+
+export async function resolve(specifier, context, nextResolve) {
+  let target = null
+  if (specifier.startsWith('@/')) {
+    target = path.join(SRC_DIR, specifier.slice(2))
+  } else if (/^\.\.?\//.test(specifier) && /\.tsx?$/.test(context.parentURL ?? '')) {
+    target = path.resolve(path.dirname(fileURLToPath(context.parentURL)), specifier)
+  }
+
+  if (target) {
+    const file = CANDIDATE_SUFFIXES
+      .map(suffix => target + suffix)
+      .find(candidate => existsSync(candidate) && statSync(candidate).isFile())
+    if (file) return { url: pathToFileURL(file).href, shortCircuit: true }
+  }
+
+  return nextResolve(specifier, context)
+}
+
+export async function load(url, context, nextLoad) {
+  if (!/\.tsx?$/.test(url)) return nextLoad(url, context)
+
+  const fileName = fileURLToPath(url)
+  const { outputText } = ts.transpileModule(await readFile(fileName, 'utf-8'), {
+    fileName,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  })
+  return { format: 'module', source: outputText, shortCircuit: true }
+}
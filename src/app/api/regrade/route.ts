@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { createAdminSupabaseClient } from '@/lib/supabase-admin'
+import { regradeSubmissions, type PreviewedRegrade, type RegradeFilters } from '@/lib/regrade'
+import type { TaskStatus } from '@/types/database'
+
+// Bash graders spawn child processes, so regrading needs the Node.js runtime
+export const runtime = 'nodejs'
+
+const TASK_STATUSES: TaskStatus[] = ['draft', 'assigned', 'in_progress', 'submitted', 'reviewed', 'completed', 'revision_requested']
+
+interface RegradeRequestBody {
+  taskIds?: unknown
+  statuses?: unknown
+  includeReviewerCreated?: unknown
+  commit?: unknown
+  previewed?: unknown
+}
+
+/**
+ * Re-runs the current graders of the selected tasks over their existing submissions.
+ * `commit: false` (the default) previews the impact; `commit: true` saves the results
+ * of that preview, sent back as `previewed` (the preview's entries with their tokens).
+ */
+export async function POST(request: Request) {
+  const supabase = await createServerSupabaseClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role !== 'admin' && profile?.role !== 'super_admin') {
+    return NextResponse.json({ error: 'Only admins can regrade submissions' }, { status: 403 })
+  }
+
+  let body: RegradeRequestBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (!Array.isArray(body.taskIds) || body.taskIds.length === 0 || !body.taskIds.every(id => typeof id === 'string')) {
+    return NextResponse.json({ error: 'Expected taskIds (non-empty array of strings)' }, { status: 400 })
+  }
+
+  const statuses = Array.isArray(body.statuses) ? body.statuses : []
+  const invalidStatus = statuses.find(status => !TASK_STATUSES.includes(status))
+  if (invalidStatus !== undefined) {
+    return NextResponse.json({ error: `Invalid status filter: ${String(invalidStatus)}` }, { status: 400 })
+  }
+
+  const commit = body.commit === true
+  const previewed = Array.isArray(body.previewed) ? body.previewed : []
+  if (commit && !previewed.every(isPreviewedRegrade)) {
+    return NextResponse.json({ error: 'Expected previewed (the preview\'s entries with their tokens)' }, { status: 400 })
+  }
+
+  const filters: RegradeFilters = {
+    statuses: statuses as TaskStatus[],
+    includeReviewerCreated: body.includeReviewerCreated === true,
+  }
+
+  try {
+    const result = await regradeSubmissions(createAdminSupabaseClient(), body.taskIds, filters, {
+      commit,
+      regradedBy: user.id,
+      previewed: commit ? previewed : undefined,
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Regrade failed:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown regrade error' },
+      { status: 500 }
+    )
+  }
+}
+
+function isPreviewedRegrade(value: unknown): value is PreviewedRegrade {
+  if (typeof value !== 'object' || value === null) return false
+  const preview = value as Record<string, unknown>
+  return typeof preview.submissionId === 'string' &&
+    typeof preview.token === 'string' &&
+    typeof preview.afterResults === 'object' && preview.afterResults !== null
+}
@@ -0,0 +1,200 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { createAdminSupabaseClient } from '@/lib/supabase-admin'
+import { evaluateResponse } from '@/lib/grader'
+import { runBashGrader } from '@/lib/bashGrader'
+import { buildGraderSnapshot, hashGraderSnapshot, type GraderSnapshot } from '@/lib/graderSnapshot'
+import {
+  buildResponseText,
+  findMissingField,
+  hasStructuredGrader,
+  type FormResponses,
+  type SubmissionResponseData,
+} from '@/lib/submissionResponse'
+import type { GraderConfig, Submission, Task } from '@/types/database'
+
+// Bash graders spawn child processes, so grading needs the Node.js runtime
+export const runtime = 'nodejs'
+
+interface SubmitRequestBody {
+  taskId?: unknown
+  formData?: unknown
+  text?: unknown
+  editedPrompt?: unknown
+  labelerComment?: unknown
+  flaggedUnsolvable?: unknown
+}
+
+/**
+ * Grades a labeler's response with the task's graders and saves the submission.
+ * Graders are loaded from the task row and scores are written with the service role,
+ * so nothing the browser sends can influence the score fields.
+ */
+export async function POST(request: Request) {
+  const supabase = await createServerSupabaseClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  let body: SubmitRequestBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (typeof body.taskId !== 'string') {
+    return NextResponse.json({ error: 'Expected taskId (string)' }, { status: 400 })
+  }
+
+  // Loaded with the caller's session, so RLS limits this to tasks they can see
+  const { data: task, error: taskError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', body.taskId)
+    .single<Task>()
+
+  if (taskError || !task) {
+    return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+  }
+
+  const { data: existing } = await supabase
+    .from('submissions')
+    .select('*')
+    .eq('task_id', task.id)
+    .eq('labeler_id', user.id)
+    .maybeSingle<Submission>()
+
+  if (existing && existing.reviewed_at && existing.status !== 'revision_requested') {
+    return NextResponse.json({ error: 'This submission has already been reviewed' }, { status: 409 })
+  }
+
+  const graders: GraderConfig[] = Array.isArray(task.graders) ? task.graders : []
+  const editedPrompt = typeof body.editedPrompt === 'string' ? body.editedPrompt : ''
+  const structured = hasStructuredGrader(graders)
+
+  const responseData: SubmissionResponseData = structured
+    ? { formData: isFormData(body.formData) ? body.formData : {}, editedPrompt }
+    : { text: typeof body.text === 'string' ? body.text : '', editedPrompt }
+
+  if (structured) {
+    const missingField = findMissingField(graders, responseData.formData!)
+    if (missingField) {
+      return NextResponse.json({ error: `Please fill in the "${missingField}" field before submitting.` }, { status: 400 })
+    }
+  } else if (!responseData.text?.trim()) {
+    return NextResponse.json({ error: 'Please provide a response before submitting.' }, { status: 400 })
+  }
+
+  const responseText = buildResponseText(graders, responseData)
+  if (structured) {
+    responseData.generatedResponse = responseText
+  }
+
+  let graderResults = null
+  let score = null
+  let graderSnapshot: GraderSnapshot | null = null
+  let graderConfigHash: string | null = null
+
+  if (graders.length > 0) {
+    graderSnapshot = buildGraderSnapshot(task)
+    graderConfigHash = await hashGraderSnapshot(graderSnapshot)
+    try {
+      graderResults = await evaluateResponse(responseText, graders, {
+        bashExecutor: (text, grader) => runBashGrader(text, grader),
+        aggregation: task.score_aggregation,
+      })
+      score = graderResults.percentageScore
+    } catch (error) {
+      console.error('Grader evaluation failed:', error)
+      return NextResponse.json(
+        { error: `Grading failed: ${error instanceof Error ? error.message : 'Unknown grading error'}` },
+        { status: 500 }
+      )
+    }
+  }
+
+  // Flagged tasks stay in progress so they show up in the flagged queue, not the review queue
+  const flaggedUnsolvable = body.flaggedUnsolvable === true
+  const labelerComment = typeof body.labelerComment === 'string' && body.labelerComment ? body.labelerComment : null
+  const now = new Date().toISOString()
+
+  const submissionData: Record<string, unknown> = {
+    response_data: responseData,
+    rubric_data: {}, // Legacy field, provide empty object
+    grader_results: graderResults,
+    score,
+    grader_config_hash: graderConfigHash,
+    grader_snapshot: graderSnapshot,
+    status: flaggedUnsolvable ? 'in_progress' : 'submitted',
+    submitted_at: now,
+    labeler_comment: labelerComment,
+    flagged_unsolvable: flaggedUnsolvable,
+  }
+
+  let admin
+  try {
+    admin = createAdminSupabaseClient()
+  } catch (error) {
+    console.error('Cannot persist graded submission:', error)
+    return NextResponse.json({ error: 'Grading server is not configured' }, { status: 500 })
+  }
+
+  if (existing) {
+    // Resubmitting after a revision request clears the previous review
+    if (existing.status === 'revision_requested') {
+      submissionData.reviewed_at = null
+      submissionData.reviewed_by = null
+      submissionData.feedback = null
+    }
+
+    const { data: updated, error } = await admin
+      .from('submissions')
+      .update({ ...submissionData, updated_at: now })
+      .eq('id', existing.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to update submission:', error)
+      return NextResponse.json({ error: `Failed to update submission: ${error.message}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ submission: updated, evaluation: graderResults, resubmitted: true })
+  }
+
+  const { data: created, error } = await admin
+    .from('submissions')
+    .insert({
+      ...submissionData,
+      task_id: task.id,
+      labeler_id: user.id,
+      created_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Failed to create submission:', error)
+    return NextResponse.json({ error: `Failed to create submission: ${error.message}` }, { status: 500 })
+  }
+
+  await admin
+    .from('tasks')
+    .update({ status: 'submitted' })
+    .eq('id', task.id)
+
+  return NextResponse.json({ submission: created, evaluation: graderResults, resubmitted: false })
+}
+
+function isFormData(value: unknown): value is FormResponses {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(v =>
+      typeof v === 'string' || typeof v === 'number' ||
+      (Array.isArray(v) && v.every(entry => typeof entry === 'string')))
+}
@@ -135,12 +135,15 @@ export default function LabelerDashboard({ user, profile }: LabelerDashboardProp
     typeof t.submission.grader_results === 'object' &&
     'percentageScore' in t.submission.grader_results
   )
-  const overallAccuracy = gradedSubmissions.length > 0
-    ? gradedSubmissions.reduce((sum, t) => {
-        const results = t.submission!.grader_results as { percentageScore: number }
-        return sum + results.percentageScore
-      }, 0) / gradedSubmissions.length
+  // Scores already net out penalties for wrong answers; abstentions simply earn nothing
+  const gradedResults = gradedSubmissions.map(t =>
+    t.submission!.grader_results as { percentageScore: number; penalty?: number; abstained?: number }
+  )
+  const overallAccuracy = gradedResults.length > 0
+    ? gradedResults.reduce((sum, results) => sum + results.percentageScore, 0) / gradedResults.length
     : null
+  const totalAbstained = gradedResults.reduce((sum, results) => sum + (results.abstained ?? 0), 0)
+  const totalPenalty = gradedResults.reduce((sum, results) => sum + (results.penalty ?? 0), 0)
 
   // Check if all tasks have been submitted (no pending tasks)
   const allTasksSubmitted = tasks.length > 0 && pendingTasks.length === 0
@@ -205,6 +208,13 @@ export default function LabelerDashboard({ user, profile }: LabelerDashboardProp
             ) : (
               <p className="text-2xl text-gray-400">N/A</p>
             )}
+            {(totalAbstained > 0 || totalPenalty > 0) && (
+              <p className="text-xs text-gray-500 mt-1">
+                {totalAbstained > 0 && `${totalAbstained} answered unknown`}
+                {totalAbstained > 0 && totalPenalty > 0 && ' • '}
+                {totalPenalty > 0 && `-${Number(totalPenalty.toFixed(2))} pts for wrong answers`}
+              </p>
+            )}
           </div>
         </div>
 
@@ -303,6 +313,8 @@ export default function LabelerDashboard({ user, profile }: LabelerDashboardProp
                               : 'bg-red-100 text-red-800'
                           }`}>
                             Accuracy: {((task.submission.grader_results as { percentageScore: number }).percentageScore).toFixed(1)}%
+                            {!!(task.submission.grader_results as { abstained?: number }).abstained &&
+                              ` • ${(task.submission.grader_results as { abstained?: number }).abstained} unknown`}
                           </span>
                         )}
                         {task.deadline && (
@@ -1,17 +1,55 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { createClient } from '@/lib/supabase'
-import type { BulkTaskUpload } from '@/types/database'
-import { validateTaskJSON, type ValidationResult } from '@/lib/taskValidator'
+import type { BulkTaskUpload, TaskDefinition } from '@/types/database'
+import { applySafeFixes, validateTaskJSON, type ValidationFix, type ValidationResult } from '@/lib/taskValidator'
+import { applyJsonPatch } from '@/lib/jsonPatch'
+import { buildJsonSourceMap, JsonSyntaxError, type SourcePosition } from '@/lib/jsonSourceMap'
+import {
+  CONFLICT_RESOLUTION_LABELS,
+  fetchConflictCandidates,
+  findTaskConflicts,
+  type ConflictResolution,
+  type TaskConflict,
+} from '@/lib/taskConflicts'
+import { bulkCreateTasks, type BulkCreateAction, type BulkCreateRow } from '@/lib/bulkTaskCreate'
+import GraderPlayground from './GraderPlayground'
+import JsonDiffPreview from './JsonDiffPreview'
+import JsonCodeEditor, { type EditorMarker, type JsonCodeEditorHandle } from './JsonCodeEditor'
+import TaskImportPanel from './TaskImportPanel'
 
 interface CreateTaskModalProps {
-  userId: string
   onClose: () => void
   onSuccess: () => void
 }
 
-export default function CreateTaskModal({ userId, onClose, onSuccess }: CreateTaskModalProps) {
+type UploadStage = 'validating' | 'checking' | 'creating'
+
+const UPLOAD_STAGES: { stage: UploadStage; label: string }[] = [
+  { stage: 'validating', label: 'Validating tasks' },
+  { stage: 'checking', label: 'Checking for existing tasks' },
+  { stage: 'creating', label: 'Creating tasks in one transaction' },
+]
+
+const UPLOAD_ACTION_LABELS: Record<BulkCreateAction, string> = {
+  created: 'Created',
+  new_version: 'New version',
+  overwritten: 'Overwritten',
+  skipped: 'Skipped',
+}
+
+// JSON.parse messages don't reliably say where the problem is, so rescan for a position
+function findSyntaxErrorPosition(text: string): SourcePosition | null {
+  try {
+    buildJsonSourceMap(text)
+    return null
+  } catch (e) {
+    return e instanceof JsonSyntaxError ? e.position : null
+  }
+}
+
+export default function CreateTaskModal({ onClose, onSuccess }: CreateTaskModalProps) {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
@@ -20,37 +58,101 @@ export default function CreateTaskModal({ userId, onClose, onSuccess }: CreateTa
   const [bulkJson, setBulkJson] = useState('')
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
   const [jsonParseError, setJsonParseError] = useState<string | null>(null)
+  const [jsonParseErrorPosition, setJsonParseErrorPosition] = useState<SourcePosition | null>(null)
+  const [parsedTasks, setParsedTasks] = useState<TaskDefinition[]>([])
+  const [showPlayground, setShowPlayground] = useState(false)
+  const [fixPreview, setFixPreview] = useState<{ before: string; after: string; fixCount: number } | null>(null)
+
+  // Tasks matching existing ones, and what to do with each (by index in the upload)
+  const [conflicts, setConflicts] = useState<TaskConflict[] | null>(null)
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({})
+
+  // Upload progress, and what happened to each task once it finishes
+  const [uploadStage, setUploadStage] = useState<UploadStage | null>(null)
+  const [uploadResults, setUploadResults] = useState<(BulkCreateRow & { name: string })[]>([])
+
+  const editorRef = useRef<JsonCodeEditorHandle>(null)
 
   const supabase = createClient()
 
   // Real-time validation with debounce
   useEffect(() => {
+    // Conflicts were found for the previous JSON, so they need checking again
+    setConflicts(null)
+    setResolutions({})
+
     if (!bulkJson.trim()) {
       setValidationResult(null)
       setJsonParseError(null)
+      setJsonParseErrorPosition(null)
+      setParsedTasks([])
       return
     }
 
     const timeoutId = setTimeout(() => {
       try {
         const parsed = JSON.parse(bulkJson)
-        const result = validateTaskJSON(parsed, { strict: false })
+        const result = validateTaskJSON(parsed, { strict: false, source: bulkJson })
         setValidationResult(result)
         setJsonParseError(null)
+        setJsonParseErrorPosition(null)
+        // The playground can only grade tasks whose shape the grader understands
+        setParsedTasks(result.criticalCount === 0 && Array.isArray(parsed.tasks) ? parsed.tasks : [])
       } catch (e) {
         // JSON parse error
         setValidationResult(null)
+        setParsedTasks([])
         setJsonParseError(e instanceof Error ? e.message : 'Invalid JSON syntax')
+        setJsonParseErrorPosition(findSyntaxErrorPosition(bulkJson))
       }
     }, 500) // Debounce 500ms
 
     return () => clearTimeout(timeoutId)
   }, [bulkJson])
 
+  const editorMarkers = useMemo<EditorMarker[]>(() => {
+    if (jsonParseError) {
+      return jsonParseErrorPosition
+        ? [{ line: jsonParseErrorPosition.line, column: jsonParseErrorPosition.column, severity: 'CRITICAL', message: jsonParseError }]
+        : []
+    }
+    return (validationResult?.issues ?? []).flatMap(issue =>
+      issue.line ? [{ line: issue.line, column: issue.column, severity: issue.severity, message: issue.message }] : []
+    )
+  }, [validationResult, jsonParseError, jsonParseErrorPosition])
+
+  const safeFixCount = validationResult?.issues.filter(issue => issue.fix?.safe).length ?? 0
+
+  // Fixes reformat the JSON, so the preview diffs the formatted document before and after
+  const previewSafeFixes = () => {
+    try {
+      const parsed = JSON.parse(bulkJson)
+      const { data, applied } = applySafeFixes(parsed)
+      setFixPreview({
+        before: JSON.stringify(parsed, null, 2),
+        after: JSON.stringify(data, null, 2),
+        fixCount: applied.length,
+      })
+    } catch (e) {
+      setError(`Could not apply fixes: ${e instanceof Error ? e.message : 'Unknown error'}`)
+    }
+  }
+
+  const applyFix = (fix: ValidationFix) => {
+    try {
+      setBulkJson(JSON.stringify(applyJsonPatch(JSON.parse(bulkJson), fix.patch), null, 2))
+      setFixPreview(null)
+    } catch (e) {
+      setError(`Could not apply fix: ${e instanceof Error ? e.message : 'Unknown error'}`)
+    }
+  }
+
   const handleSubmit = async () => {
     setLoading(true)
     setError(null)
     setSuccessMessage(null)
+    setUploadResults([])
+    setUploadStage('validating')
 
     try {
       // Validate JSON input
@@ -81,41 +183,36 @@ export default function CreateTaskModal({ userId, onClose, onSuccess }: CreateTa
         }
       }
 
-      // Insert all tasks
-      const createdTasks: string[] = []
-
-      for (const taskDef of bulkData.tasks) {
-        const { data: task, error: taskError } = await supabase
-          .from('tasks')
-          .insert({
-            title: taskDef.name,
-            description: taskDef.description || null,
-            prompt: taskDef.prompt,
-            graders: taskDef.graders,
-            created_by: userId,
-            status: 'draft',
-          })
-          .select()
-          .single()
-
-        if (taskError) {
-          throw new Error(`Failed to create task "${taskDef.name}": ${taskError.message}`)
-        }
-
-        createdTasks.push(task.title)
+      // Check for tasks that already exist, and stop until each conflict has a resolution
+      setUploadStage('checking')
+      const existingTasks = await fetchConflictCandidates(supabase, bulkData.tasks)
+      const foundConflicts = findTaskConflicts(bulkData.tasks, existingTasks)
+      if (foundConflicts.some(conflict => !(conflict.index in resolutions))) {
+        setConflicts(foundConflicts)
+        setResolutions(Object.fromEntries(foundConflicts.map(conflict => [conflict.index, resolutions[conflict.index] ?? 'skip'])))
+        return
       }
 
-      setSuccessMessage(`Successfully created ${createdTasks.length} task(s): ${createdTasks.join(', ')}`)
+      // Create everything in one transaction: either every task is created or none are
+      setUploadStage('creating')
+      const rows = await bulkCreateTasks(supabase, bulkData.tasks, foundConflicts, resolutions)
+      setUploadResults(rows.map(row => ({ ...row, name: bulkData.tasks[row.task_index].name })))
+
+      const count = (action: BulkCreateAction) => rows.filter(row => row.action === action).length
+      setSuccessMessage(
+        [
+          `Successfully created ${count('created') + count('new_version')} task(s)`,
+          count('new_version') > 0 ? `${count('new_version')} as new versions` : null,
+          count('overwritten') > 0 ? `overwrote ${count('overwritten')}` : null,
+          count('skipped') > 0 ? `skipped ${count('skipped')}` : null,
+        ].filter(Boolean).join(', ')
+      )
       setBulkJson('')
-
-      // Auto-close after 2 seconds
-      setTimeout(() => {
-        onSuccess()
-      }, 2000)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
       setLoading(false)
+      setUploadStage(null)
     }
   }
 
@@ -154,246 +251,445 @@ export default function CreateTaskModal({ userId, onClose, onSuccess }: CreateTa
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
-        <div className="p-6 border-b border-gray-200">
-          <h2 className="text-2xl font-bold text-gray-900">Bulk Upload Tasks</h2>
-          <p className="text-sm text-gray-600 mt-1">
-            Upload multiple tasks at once using JSON format
-          </p>
+      <div className={`bg-white rounded-lg w-full max-h-[90vh] overflow-y-auto ${showPlayground ? 'max-w-7xl' : 'max-w-4xl'}`}>
+        <div className="p-6 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Bulk Upload Tasks</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Upload multiple tasks at once using JSON format
+            </p>
+          </div>
+          <button
+            onClick={() => setShowPlayground(!showPlayground)}
+            className={`px-3 py-1 rounded text-sm font-medium ${showPlayground ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'}`}
+          >
+            {showPlayground ? 'Hide Grader Playground' : 'Grader Playground'}
+          </button>
         </div>
 
-        <div className="p-6 space-y-6">
-          {error && (
-            <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
-              <svg className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-              </svg>
-              <div className="flex-1">
-                <p className="text-sm font-medium text-red-800">{error}</p>
-              </div>
-              <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
-                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+        <div className={showPlayground ? 'grid grid-cols-2' : ''}>
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+                <svg className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
                 </svg>
-              </button>
-            </div>
-          )}
-
-          {successMessage && (
-            <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-start gap-3">
-              <svg className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-              </svg>
-              <p className="text-sm font-medium text-green-800">{successMessage}</p>
-            </div>
-          )}
-
-          {/* Validation Status Banner */}
-          {bulkJson.trim() && (
-            <div className={`border-2 rounded-lg p-3 ${
-              jsonParseError
-                ? 'bg-red-50 border-red-400'
-                : validationResult === null
-                ? 'bg-yellow-50 border-yellow-400'
-                : validationResult.isValid
-                ? 'bg-green-50 border-green-400'
-                : 'bg-red-50 border-red-400'
-            }`}>
-              <div className="flex items-center gap-2">
-                {jsonParseError ? (
-                  <>
-                    <svg className="w-5 h-5 text-red-600" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                    </svg>
-                    <span className="font-semibold text-red-900">JSON Syntax Error - Cannot Upload</span>
-                  </>
-                ) : validationResult === null ? (
-                  <>
-                    <svg className="w-5 h-5 text-yellow-600 animate-spin" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                    <span className="font-semibold text-yellow-900">Validating...</span>
-                  </>
-                ) : validationResult.isValid ? (
-                  <>
-                    <svg className="w-5 h-5 text-green-600" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                    </svg>
-                    <span className="font-semibold text-green-900">✓ Ready to Upload</span>
-                  </>
-                ) : (
-                  <>
-                    <svg className="w-5 h-5 text-red-600" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                    </svg>
-                    <span className="font-semibold text-red-900">
-                      Validation Failed - Fix {validationResult.criticalCount + validationResult.errorCount} Issue(s)
-                    </span>
-                  </>
-                )}
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-red-800">{error}</p>
+                </div>
+                <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
               </div>
-            </div>
-          )}
-
-          {/* Task JSON Input */}
-          <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
-            <h3 className="text-lg font-semibold text-gray-900 mb-3">Paste Task JSON</h3>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                JSON containing tasks array *
-              </label>
-              <textarea
-                value={bulkJson}
-                onChange={(e) => setBulkJson(e.target.value)}
-                rows={15}
-                placeholder={exampleJson}
-                className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
-              />
-              <p className="text-xs text-gray-500 mt-2">
-                Paste your JSON with a &quot;tasks&quot; array. Each task must have: name, prompt, and graders.
-              </p>
-            </div>
-          </div>
+            )}
 
-          {/* JSON Parse Error */}
-          {jsonParseError && (
-            <div className="border-2 border-red-300 bg-red-50 rounded-lg p-4">
-              <div className="flex items-start gap-3">
-                <svg className="w-6 h-6 text-red-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+            {successMessage && (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-start gap-3">
+                <svg className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                 </svg>
                 <div className="flex-1">
-                  <h3 className="text-base font-semibold text-red-900">Invalid JSON Syntax</h3>
-                  <p className="text-sm text-red-800 mt-1 font-mono">{jsonParseError}</p>
-                  <p className="text-sm text-red-700 mt-2">Please fix the JSON syntax errors before validating the schema.</p>
+                  <p className="text-sm font-medium text-green-800">{successMessage}</p>
+                  {uploadResults.length > 0 && (
+                    <div className="mt-2 max-h-40 overflow-y-auto text-xs text-green-900 space-y-0.5">
+                      {uploadResults.map(result => (
+                        <div key={result.task_index} className="flex gap-2">
+                          <span className="w-24 flex-shrink-0 font-medium">{UPLOAD_ACTION_LABELS[result.action]}</span>
+                          <span className="flex-1 truncate">{result.name}</span>
+                          <span className="font-mono text-green-700">{result.task_id}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
+            )}
+
+            {/* Upload Progress */}
+            {uploadStage && (
+              <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+                {(() => {
+                  const current = UPLOAD_STAGES.findIndex(({ stage }) => stage === uploadStage)
+                  return (
+                    <>
+                      <div className="flex justify-between text-sm text-indigo-900 font-medium">
+                        <span>{UPLOAD_STAGES[current].label}...</span>
+                        <span>Step {current + 1} of {UPLOAD_STAGES.length}</span>
+                      </div>
+                      <div className="mt-2 h-2 bg-indigo-100 rounded overflow-hidden">
+                        <div
+                          className="h-full bg-indigo-600 animate-pulse transition-all"
+                          style={{ width: `${((current + 1) / UPLOAD_STAGES.length) * 100}%` }}
+                        />
+                      </div>
+                    </>
+                  )
+                })()}
+              </div>
+            )}
+
+            {/* Validation Status Banner */}
+            {bulkJson.trim() && (
+              <div className={`border-2 rounded-lg p-3 ${
+                jsonParseError
+                  ? 'bg-red-50 border-red-400'
+                  : validationResult === null
+                  ? 'bg-yellow-50 border-yellow-400'
+                  : validationResult.isValid
+                  ? 'bg-green-50 border-green-400'
+                  : 'bg-red-50 border-red-400'
+              }`}>
+                <div className="flex items-center gap-2">
+                  {jsonParseError ? (
+                    <>
+                      <svg className="w-5 h-5 text-red-600" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                      </svg>
+                      <span className="font-semibold text-red-900">JSON Syntax Error - Cannot Upload</span>
+                    </>
+                  ) : validationResult === null ? (
+                    <>
+                      <svg className="w-5 h-5 text-yellow-600 animate-spin" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      <span className="font-semibold text-yellow-900">Validating...</span>
+                    </>
+                  ) : validationResult.isValid ? (
+                    <>
+                      <svg className="w-5 h-5 text-green-600" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                      </svg>
+                      <span className="font-semibold text-green-900">✓ Ready to Upload</span>
+                    </>
+                  ) : (
+                    <>
+                      <svg className="w-5 h-5 text-red-600" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                      </svg>
+                      <span className="font-semibold text-red-900">
+                        Validation Failed - Fix {validationResult.criticalCount + validationResult.errorCount} Issue(s)
+                      </span>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Task JSON Input */}
+            <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Paste or Import Tasks</h3>
+
+              <div>
+                <TaskImportPanel
+                  onImport={(json) => {
+                    setBulkJson(json)
+                    setFixPreview(null)
+                  }}
+                  onError={setError}
+                />
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  JSON containing tasks array *
+                </label>
+                <JsonCodeEditor
+                  ref={editorRef}
+                  value={bulkJson}
+                  onChange={(value) => {
+                    setBulkJson(value)
+                    setFixPreview(null)
+                  }}
+                  markers={editorMarkers}
+                  placeholder={exampleJson}
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  Paste your JSON with a &quot;tasks&quot; array. Each task must have: name, prompt, and graders.
+                </p>
+              </div>
             </div>
-          )}
-
-          {/* Validation Results */}
-          {!jsonParseError && validationResult && (
-            <div className={`border-2 rounded-lg p-4 ${
-              validationResult.isValid
-                ? 'bg-green-50 border-green-300'
-                : validationResult.criticalCount > 0
-                ? 'bg-red-50 border-red-300'
-                : 'bg-orange-50 border-orange-300'
-            }`}>
-              <div className="flex items-start gap-3 mb-3">
-                {validationResult.isValid ? (
-                  <svg className="w-6 h-6 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                  </svg>
-                ) : (
+
+            {/* JSON Parse Error */}
+            {jsonParseError && (
+              <div className="border-2 border-red-300 bg-red-50 rounded-lg p-4">
+                <div className="flex items-start gap-3">
                   <svg className="w-6 h-6 text-red-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
                   </svg>
-                )}
-                <div className="flex-1">
-                  <h3 className={`text-base font-semibold ${
-                    validationResult.isValid ? 'text-green-900' : 'text-red-900'
-                  }`}>
-                    {validationResult.isValid ? '✓ Validation Passed' : '✗ Validation Failed'}
-                  </h3>
-                  <div className="mt-2 flex flex-wrap gap-2 text-xs">
-                    <span className="px-2 py-1 bg-white rounded font-medium">
-                      {validationResult.taskCount} task{validationResult.taskCount !== 1 ? 's' : ''}
-                    </span>
-                    <span className="px-2 py-1 bg-white rounded font-medium">
-                      {validationResult.graderCount} grader{validationResult.graderCount !== 1 ? 's' : ''}
-                    </span>
-                    {validationResult.criticalCount > 0 && (
-                      <span className="px-2 py-1 bg-red-600 text-white rounded font-medium">
-                        {validationResult.criticalCount} CRITICAL
-                      </span>
+                  <div className="flex-1">
+                    <h3 className="text-base font-semibold text-red-900">Invalid JSON Syntax</h3>
+                    <p className="text-sm text-red-800 mt-1 font-mono">{jsonParseError}</p>
+                    {jsonParseErrorPosition && (
+                      <button
+                        onClick={() => editorRef.current?.jumpTo(jsonParseErrorPosition.line, jsonParseErrorPosition.column)}
+                        className="text-sm text-red-700 underline mt-1"
+                      >
+                        Go to line {jsonParseErrorPosition.line}, column {jsonParseErrorPosition.column}
+                      </button>
                     )}
-                    {validationResult.errorCount > 0 && (
-                      <span className="px-2 py-1 bg-orange-600 text-white rounded font-medium">
-                        {validationResult.errorCount} ERROR{validationResult.errorCount !== 1 ? 'S' : ''}
+                    <p className="text-sm text-red-700 mt-2">Please fix the JSON syntax errors before validating the schema.</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Validation Results */}
+            {!jsonParseError && validationResult && (
+              <div className={`border-2 rounded-lg p-4 ${
+                validationResult.isValid
+                  ? 'bg-green-50 border-green-300'
+                  : validationResult.criticalCount > 0
+                  ? 'bg-red-50 border-red-300'
+                  : 'bg-orange-50 border-orange-300'
+              }`}>
+                <div className="flex items-start gap-3 mb-3">
+                  {validationResult.isValid ? (
+                    <svg className="w-6 h-6 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                    </svg>
+                  ) : (
+                    <svg className="w-6 h-6 text-red-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                    </svg>
+                  )}
+                  <div className="flex-1">
+                    <h3 className={`text-base font-semibold ${
+                      validationResult.isValid ? 'text-green-900' : 'text-red-900'
+                    }`}>
+                      {validationResult.isValid ? '✓ Validation Passed' : '✗ Validation Failed'}
+                    </h3>
+                    <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                      <span className="px-2 py-1 bg-white rounded font-medium">
+                        {validationResult.taskCount} task{validationResult.taskCount !== 1 ? 's' : ''}
                       </span>
-                    )}
-                    {validationResult.warningCount > 0 && (
-                      <span className="px-2 py-1 bg-yellow-600 text-white rounded font-medium">
-                        {validationResult.warningCount} WARNING{validationResult.warningCount !== 1 ? 'S' : ''}
+                      <span className="px-2 py-1 bg-white rounded font-medium">
+                        {validationResult.graderCount} grader{validationResult.graderCount !== 1 ? 's' : ''}
                       </span>
-                    )}
+                      {validationResult.criticalCount > 0 && (
+                        <span className="px-2 py-1 bg-red-600 text-white rounded font-medium">
+                          {validationResult.criticalCount} CRITICAL
+                        </span>
+                      )}
+                      {validationResult.errorCount > 0 && (
+                        <span className="px-2 py-1 bg-orange-600 text-white rounded font-medium">
+                          {validationResult.errorCount} ERROR{validationResult.errorCount !== 1 ? 'S' : ''}
+                        </span>
+                      )}
+                      {validationResult.warningCount > 0 && (
+                        <span className="px-2 py-1 bg-yellow-600 text-white rounded font-medium">
+                          {validationResult.warningCount} WARNING{validationResult.warningCount !== 1 ? 'S' : ''}
+                        </span>
+                      )}
+                    </div>
                   </div>
+                  {safeFixCount > 0 && !fixPreview && (
+                    <button
+                      onClick={previewSafeFixes}
+                      className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm font-medium flex-shrink-0"
+                    >
+                      Apply All Safe Fixes ({safeFixCount})
+                    </button>
+                  )}
                 </div>
-              </div>
 
-              {/* Issues List */}
-              {validationResult.issues.length > 0 && (
-                <div className="mt-4 space-y-2 max-h-60 overflow-y-auto">
-                  {validationResult.issues.map((issue, idx) => (
-                    <div
-                      key={idx}
-                      className={`p-3 rounded text-sm ${
-                        issue.severity === 'CRITICAL'
-                          ? 'bg-red-100 border border-red-300'
-                          : issue.severity === 'ERROR'
-                          ? 'bg-orange-100 border border-orange-300'
-                          : 'bg-yellow-100 border border-yellow-300'
-                      }`}
-                    >
-                      <div className="flex items-start gap-2">
-                        <span className={`text-xs font-bold px-2 py-0.5 rounded flex-shrink-0 ${
+                {/* Safe fix preview */}
+                {fixPreview && (
+                  <div className="mt-4 p-3 bg-indigo-50 border border-indigo-200 rounded space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <p className="text-sm text-indigo-900">
+                        <span className="font-semibold">{fixPreview.fixCount} safe fix(es)</span> will change the JSON as
+                        shown. The JSON is reformatted with 2-space indentation.
+                      </p>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => setFixPreview(null)}
+                          className="px-3 py-1 border border-gray-300 bg-white rounded text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => {
+                            setBulkJson(fixPreview.after)
+                            setFixPreview(null)
+                          }}
+                          className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm font-medium"
+                        >
+                          Apply Fixes
+                        </button>
+                      </div>
+                    </div>
+                    <div className="max-h-80 overflow-y-auto">
+                      <JsonDiffPreview before={fixPreview.before} after={fixPreview.after} />
+                    </div>
+                  </div>
+                )}
+
+                {/* Issues List */}
+                {validationResult.issues.length > 0 && (
+                  <div className="mt-4 space-y-2 max-h-60 overflow-y-auto">
+                    {validationResult.issues.map((issue, idx) => (
+                      <div
+                        key={idx}
+                        className={`p-3 rounded text-sm ${
                           issue.severity === 'CRITICAL'
-                            ? 'bg-red-600 text-white'
+                            ? 'bg-red-100 border border-red-300'
                             : issue.severity === 'ERROR'
-                            ? 'bg-orange-600 text-white'
-                            : 'bg-yellow-600 text-white'
-                        }`}>
-                          {issue.severity}
-                        </span>
-                        <div className="flex-1">
-                          <p className="font-mono text-xs text-gray-700 font-semibold">{issue.path}</p>
-                          <p className="text-gray-800 mt-1">{issue.message}</p>
+                            ? 'bg-orange-100 border border-orange-300'
+                            : 'bg-yellow-100 border border-yellow-300'
+                        }`}
+                      >
+                        <div className="flex items-start gap-2">
+                          <span className={`text-xs font-bold px-2 py-0.5 rounded flex-shrink-0 ${
+                            issue.severity === 'CRITICAL'
+                              ? 'bg-red-600 text-white'
+                              : issue.severity === 'ERROR'
+                              ? 'bg-orange-600 text-white'
+                              : 'bg-yellow-600 text-white'
+                          }`}>
+                            {issue.severity}
+                          </span>
+                          <div className="flex-1">
+                            <p className="font-mono text-xs text-gray-700 font-semibold">
+                              {issue.path}
+                              {issue.line && (
+                                <button
+                                  onClick={() => editorRef.current?.jumpTo(issue.line!, issue.column)}
+                                  title="Show in editor"
+                                  className="ml-2 font-normal text-indigo-700 hover:underline"
+                                >
+                                  {issue.line}:{issue.column}
+                                </button>
+                              )}
+                            </p>
+                            <p className="text-gray-800 mt-1">{issue.message}</p>
+                            {issue.fix && (
+                              <div className="mt-2 flex items-center gap-2 text-xs">
+                                <span className="text-gray-700">
+                                  Fix: {issue.fix.description}
+                                  {!issue.fix.safe && <span className="text-orange-700"> (changes grading, review first)</span>}
+                                </span>
+                                <button
+                                  onClick={() => applyFix(issue.fix!)}
+                                  className="px-2 py-0.5 bg-white border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+                                >
+                                  Apply
+                                </button>
+                              </div>
+                            )}
+                          </div>
                         </div>
                       </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Conflicts with existing tasks */}
+            {conflicts && conflicts.length > 0 && (
+              <div className="border-2 border-amber-300 bg-amber-50 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h3 className="text-base font-semibold text-amber-900">
+                      {conflicts.length} task(s) already exist
+                    </h3>
+                    <p className="text-sm text-amber-800 mt-1">
+                      Choose what to do with each, then upload again.
+                    </p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    {(Object.keys(CONFLICT_RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                      <button
+                        key={resolution}
+                        onClick={() => setResolutions(Object.fromEntries(conflicts.map(conflict => [conflict.index, resolution])))}
+                        className="px-2 py-1 bg-white border border-amber-300 rounded text-xs text-amber-900 hover:bg-amber-100"
+                      >
+                        {CONFLICT_RESOLUTION_LABELS[resolution]} all
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mt-3 space-y-2 max-h-60 overflow-y-auto">
+                  {conflicts.map(conflict => (
+                    <div key={conflict.index} className="flex items-center gap-3 p-2 bg-white border border-amber-200 rounded text-sm">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          tasks[{conflict.index}] {conflict.taskName}
+                        </p>
+                        <p className="text-xs text-gray-600">
+                          {conflict.reason === 'name_and_prompt'
+                            ? 'Same name and prompt as'
+                            : conflict.reason === 'name'
+                            ? 'Same name as'
+                            : 'Same prompt as'}{' '}
+                          &quot;{conflict.existing.title}&quot; (v{conflict.existing.version})
+                        </p>
+                      </div>
+                      <select
+                        value={resolutions[conflict.index] ?? 'skip'}
+                        onChange={(e) => setResolutions({ ...resolutions, [conflict.index]: e.target.value as ConflictResolution })}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm"
+                      >
+                        {(Object.keys(CONFLICT_RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                          <option key={resolution} value={resolution}>
+                            {resolution === 'new_version'
+                              ? `${CONFLICT_RESOLUTION_LABELS[resolution]} (v${conflict.existing.version + 1})`
+                              : CONFLICT_RESOLUTION_LABELS[resolution]}
+                          </option>
+                        ))}
+                      </select>
                     </div>
                   ))}
                 </div>
-              )}
+              </div>
+            )}
+
+            {/* Help Section */}
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded">
+              <p className="text-sm text-blue-900 font-medium mb-2">
+                📖 Format Example
+              </p>
+              <pre className="text-xs text-blue-800 bg-blue-100 p-3 rounded overflow-x-auto">
+  {`{
+    "tasks": [
+      {
+        "name": "Task Name",
+        "description": "Optional description",
+        "prompt": "Question for labelers",
+        "graders": [
+          {
+            "type": "xml",
+            "name": "Grader Name",
+            "config": { "structure": [...] },
+            "weight": 1
+          }
+        ]
+      }
+    ]
+  }`}
+              </pre>
             </div>
-          )}
+          </div>
 
-          {/* Help Section */}
-          <div className="p-4 bg-blue-50 border border-blue-200 rounded">
-            <p className="text-sm text-blue-900 font-medium mb-2">
-              📖 Format Example
+        {showPlayground && (
+          <aside className="p-6 border-l border-gray-200 bg-gray-50">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Grader Playground</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Try a sample answer against a task&apos;s graders and see how each field scores.
             </p>
-            <pre className="text-xs text-blue-800 bg-blue-100 p-3 rounded overflow-x-auto">
-{`{
-  "tasks": [
-    {
-      "name": "Task Name",
-      "description": "Optional description",
-      "prompt": "Question for labelers",
-      "graders": [
-        {
-          "type": "xml",
-          "name": "Grader Name",
-          "config": { "structure": [...] },
-          "weight": 1
-        }
-      ]
-    }
-  ]
-}`}
-            </pre>
-          </div>
+            <GraderPlayground tasks={parsedTasks} />
+          </aside>
+        )}
         </div>
 
         <div className="p-6 border-t border-gray-200 flex justify-between">
           <button
-            onClick={onClose}
+            onClick={uploadResults.length > 0 ? onSuccess : onClose}
             className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
             disabled={loading}
           >
-            Cancel
+            {uploadResults.length > 0 ? 'Done' : 'Cancel'}
           </button>
 
           <button
@@ -418,7 +714,7 @@ export default function CreateTaskModal({ userId, onClose, onSuccess }: CreateTa
                 : ''
             }
           >
-            {loading ? 'Uploading Tasks...' : 'Upload Tasks'}
+            {loading ? 'Uploading Tasks...' : conflicts && conflicts.length > 0 ? 'Upload with Resolutions' : 'Upload Tasks'}
           </button>
         </div>
       </div>
@@ -2,7 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase'
-import type { Task, GraderConfig, Submission } from '@/types/database'
+import { hasChildElements, structurePath } from '@/lib/xmlParser'
+import type { Task, GraderConfig, GraderStructureField, Submission } from '@/types/database'
 
 interface TaskWithSelection extends Task {
   selected: boolean
@@ -268,50 +269,71 @@ export default function ExportTasks() {
         console.log('Available formData keys:', Object.keys(formData))
         console.log('Full formData:', JSON.stringify(formData, null, 2))
 
-        populatedGrader.config.structure = populatedGrader.config.structure.map(field => {
-          console.log(`\n--- Processing field "${field.id}" (name: "${field.name}") ---`)
-
-          // Try multiple key variations to find the value
-          const value = formData[field.id] ?? formData[field.name] ?? formData[field.id.toLowerCase()] ?? formData[field.name.toLowerCase()]
-
-          console.log(`Raw value found:`, value, 'Type:', typeof value)
-
-          // Convert value based on field type
-          let expected: string | number | boolean | undefined = undefined
-
-          if (value !== undefined && value !== null && value !== '') {
-            switch (field.type) {
-              case 'int':
-                expected = typeof value === 'number' ? value : parseInt(String(value), 10)
-                if (isNaN(expected as number)) expected = undefined
-                break
-              case 'float':
-                expected = typeof value === 'number' ? value : parseFloat(String(value))
-                if (isNaN(expected as number)) expected = undefined
-                break
-              case 'boolean':
-                expected = typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true'
-                break
-              case 'string':
-              default:
-                expected = String(value)
-                break
+        // formData is keyed by structure path ("parent/child"), as the labeler form fills it
+        const populateFields = (fields: GraderStructureField[], parentPath: string): GraderStructureField[] =>
+          fields.map(field => {
+            const path = structurePath(parentPath, field)
+            const children = field.children ? populateFields(field.children, path) : field.children
+            // Containers have nothing to compare, and fields without a comparator keep none
+            if (hasChildElements(field) || !field.comparator) return { ...field, children }
+
+            console.log(`\n--- Processing field "${path}" (id: "${field.id}") ---`)
+
+            // Top-level fields may also be keyed by id or lowercased, as in older submissions
+            const value = formData[path] ?? (parentPath
+              ? undefined
+              : formData[field.id] ?? formData[field.id.toLowerCase()] ?? formData[field.name.toLowerCase()])
+
+            console.log(`Raw value found:`, value, 'Type:', typeof value)
+
+            // Convert value based on field type
+            let expected: string | number | boolean | Array<string | number> | undefined = undefined
+
+            if (value !== undefined && value !== null && value !== '') {
+              switch (field.type) {
+                case 'int':
+                  expected = typeof value === 'number' ? value : parseInt(String(value), 10)
+                  if (isNaN(expected as number)) expected = undefined
+                  break
+                case 'float':
+                  expected = typeof value === 'number' ? value : parseFloat(String(value))
+                  if (isNaN(expected as number)) expected = undefined
+                  break
+                case 'bool':
+                  expected = typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true'
+                  break
+                case 'list': {
+                  const entries = (Array.isArray(value) ? value : String(value).split(/[,\n]/))
+                    .map(entry => String(entry).trim())
+                    .filter(entry => entry !== '')
+                  expected = field.item_type === 'int' || field.item_type === 'float'
+                    ? entries.map(Number).filter(entry => !isNaN(entry))
+                    : entries
+                  break
+                }
+                case 'string':
+                default:
+                  expected = String(value)
+                  break
+              }
             }
-          }
 
-          console.log(`Final expected value:`, expected, 'Type:', typeof expected)
+            console.log(`Final expected value:`, expected, 'Type:', typeof expected)
 
-          return {
-            ...field,
-            comparator: {
-              ...field.comparator,
-              config: {
-                ...field.comparator.config,
-                expected
+            return {
+              ...field,
+              children,
+              comparator: {
+                ...field.comparator,
+                config: {
+                  ...field.comparator.config,
+                  expected
+                }
               }
             }
-          }
-        })
+          })
+
+        populatedGrader.config.structure = populateFields(populatedGrader.config.structure, '')
       }
 
       // Populate expected values in test_cases from formData
@@ -384,7 +406,11 @@ export default function ExportTasks() {
         name: task.title,
         description: task.description || '',
         prompt: task.prompt || '',
-        graders: task.graders ? populateGraderExpectedValues(task.graders, task.submissionData) : []
+        graders: task.graders ? populateGraderExpectedValues(task.graders, task.submissionData) : [],
+        // Only non-default aggregation is exported, keeping the neoforge format unchanged otherwise
+        ...(task.score_aggregation && task.score_aggregation !== 'weighted_sum'
+          ? { score_aggregation: task.score_aggregation }
+          : {})
       }))
     }
 
@@ -0,0 +1,240 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import type { TaskDefinition } from '@/types/database'
+import { evaluateResponse, type EvaluationResult, type GraderResult } from '@/lib/grader'
+import { buildResponseText, hasStructuredGrader, type FormResponses } from '@/lib/submissionResponse'
+import FillInTheBlankForm from '@/components/labeler/FillInTheBlankForm'
+
+interface GraderPlaygroundProps {
+  tasks: TaskDefinition[]
+}
+
+/**
+ * Bash graders execute scripts on the server, so the playground reports them as skipped:
+ * not passed, since the preview can't tell, and left out of the totals, which are
+ * labelled partial.
+ */
+async function skipBashGrader(_responseText: string, grader: { name: string }): Promise<GraderResult> {
+  return {
+    graderName: grader.name,
+    score: 0,
+    maxScore: 0,
+    passed: false,
+    skipped: true,
+    details: { skipped: 'Bash graders only run on the server and are not previewed here' },
+  }
+}
+
+export default function GraderPlayground({ tasks }: GraderPlaygroundProps) {
+  const [taskIndex, setTaskIndex] = useState(0)
+  const [inputMode, setInputMode] = useState<'form' | 'raw'>('form')
+  const [formResponses, setFormResponses] = useState<FormResponses>({})
+  const [rawResponse, setRawResponse] = useState('')
+  const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null)
+  const [evaluationError, setEvaluationError] = useState<string | null>(null)
+
+  const task = tasks[Math.min(taskIndex, tasks.length - 1)] as TaskDefinition | undefined
+  const graders = useMemo(() => (Array.isArray(task?.graders) ? task.graders : []), [task])
+  const usesForm = hasStructuredGrader(graders) && inputMode === 'form'
+
+  const responseText = usesForm
+    ? buildResponseText(graders, { formData: formResponses })
+    : rawResponse
+
+  const skippedCount = evaluation?.graderResults.filter(result => result.skipped).length ?? 0
+
+  // Re-grade as the sample answer or the pasted JSON changes
+  useEffect(() => {
+    if (graders.length === 0) {
+      setEvaluation(null)
+      setEvaluationError(null)
+      return
+    }
+
+    let cancelled = false
+    const timeoutId = setTimeout(async () => {
+      try {
+        const result = await evaluateResponse(responseText, graders, {
+          bashExecutor: skipBashGrader,
+          aggregation: task?.score_aggregation,
+        })
+        if (!cancelled) {
+          setEvaluation(result)
+          setEvaluationError(null)
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setEvaluation(null)
+          setEvaluationError(e instanceof Error ? e.message : 'Grading failed')
+        }
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [responseText, graders, task?.score_aggregation])
+
+  if (tasks.length === 0) {
+    return (
+      <div className="text-center py-12 bg-gray-50 rounded border-2 border-dashed border-gray-300">
+        <p className="text-gray-600">No tasks to try yet</p>
+        <p className="text-sm text-gray-500 mt-1">Paste valid task JSON to preview its graders</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Task</label>
+        <select
+          value={taskIndex}
+          onChange={(e) => {
+            setTaskIndex(Number(e.target.value))
+            setFormResponses({})
+            setRawResponse('')
+          }}
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {tasks.map((t, index) => (
+            <option key={index} value={index}>
+              {t?.name || `Task ${index + 1}`}
+            </option>
+          ))}
+        </select>
+        {task?.prompt && (
+          <p className="mt-2 text-sm text-gray-600 whitespace-pre-wrap">{task.prompt}</p>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-700">Sample answer</label>
+          {hasStructuredGrader(graders) && (
+            <div className="flex gap-1 text-xs">
+              <button
+                onClick={() => setInputMode('form')}
+                className={`px-2 py-1 rounded ${inputMode === 'form' ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}
+              >
+                Form
+              </button>
+              <button
+                onClick={() => {
+                  setRawResponse(responseText)
+                  setInputMode('raw')
+                }}
+                className={`px-2 py-1 rounded ${inputMode === 'raw' ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}
+              >
+                Raw
+              </button>
+            </div>
+          )}
+        </div>
+
+        {usesForm ? (
+          <FillInTheBlankForm graders={graders} formResponses={formResponses} onChange={setFormResponses} />
+        ) : (
+          <textarea
+            value={rawResponse}
+            onChange={(e) => setRawResponse(e.target.value)}
+            rows={8}
+            placeholder="Type or paste a labeler response..."
+            className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        )}
+      </div>
+
+      {evaluationError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+          <span className="font-semibold">Grading error:</span> {evaluationError}
+        </div>
+      )}
+
+      {evaluation && (
+        <div className="space-y-3">
+          <div className={`p-3 rounded border-2 ${evaluation.passed ? 'bg-green-50 border-green-300' : 'bg-red-50 border-red-300'}`}>
+            <div className="flex items-center justify-between">
+              <span className={`font-semibold ${evaluation.passed ? 'text-green-900' : 'text-red-900'}`}>
+                {evaluation.passed ? '✓ Passed' : '✗ Failed'}
+                {skippedCount > 0 && ' (partial)'}
+              </span>
+              <span className="font-mono text-sm text-gray-800">
+                {evaluation.totalScore} / {evaluation.maxScore} ({evaluation.percentageScore.toFixed(1)}%)
+              </span>
+            </div>
+            <p className="text-xs text-gray-600 mt-1">Aggregation: {evaluation.aggregation}</p>
+            {skippedCount > 0 && (
+              <p className="text-xs text-orange-700 mt-1">
+                Partial preview: {skippedCount} bash grader(s) not run, so the result on the server may differ
+              </p>
+            )}
+          </div>
+
+          {evaluation.graderResults.map((result, index) => (
+            <div key={index} className="border border-gray-200 rounded p-3">
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-gray-900">{result.graderName}</p>
+                {result.skipped ? (
+                  <span className="text-xs px-2 py-0.5 rounded font-medium bg-gray-100 text-gray-700">Skipped</span>
+                ) : (
+                  <span className={`text-xs px-2 py-0.5 rounded font-medium ${result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                    {result.score} / {result.maxScore}
+                  </span>
+                )}
+              </div>
+              <div className="mt-2 space-y-1">
+                {Object.entries(result.details).map(([key, value]) => {
+                  if (typeof value !== 'object' || value === null) {
+                    return (
+                      <p key={key} className="text-xs text-orange-700">
+                        {key}: {String(value)}
+                      </p>
+                    )
+                  }
+                  const detail = value as Record<string, unknown>
+                  return (
+                    <div
+                      key={key}
+                      className={`text-xs rounded p-2 border ${detail.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono font-semibold text-gray-900">{key}</span>
+                        <span className="text-gray-500">
+                          {detail.comparator !== undefined && `${String(detail.comparator)} • `}
+                          weight {String(detail.weight ?? '—')}
+                        </span>
+                      </div>
+                      <p className="text-gray-600 mt-1">
+                        Expected: <span className="font-mono">{JSON.stringify(detail.expected)}</span>
+                        {' • '}
+                        Actual: <span className="font-mono">{JSON.stringify(detail.actual)}</span>
+                      </p>
+                      {detail.matchedAlternative !== undefined && (
+                        <p className="text-indigo-700 mt-1">
+                          Matched alternative #{Number(detail.matchedAlternative) + 1}
+                          {detail.matchedLabel !== undefined && ` (${String(detail.matchedLabel)})`}
+                          {' • '}{Math.round(Number(detail.credit ?? 1) * 100)}% credit
+                        </p>
+                      )}
+                      {typeof detail.error === 'string' && <p className="text-red-700 mt-1">{detail.error}</p>}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {usesForm && (
+        <details>
+          <summary className="text-xs text-gray-600 cursor-pointer">Generated response</summary>
+          <pre className="mt-2 text-xs bg-gray-50 border border-gray-200 rounded p-2 overflow-x-auto">{responseText}</pre>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useImperativeHandle, useMemo, useRef, useState, type Ref } from 'react'
+import type { ValidationIssue } from '@/lib/taskValidator'
+
+export interface EditorMarker {
+  line: number // 1-based
+  column?: number
+  severity: ValidationIssue['severity']
+  message: string
+}
+
+export interface JsonCodeEditorHandle {
+  jumpTo: (line: number, column?: number) => void
+}
+
+interface JsonCodeEditorProps {
+  value: string
+  onChange: (value: string) => void
+  markers?: EditorMarker[]
+  placeholder?: string
+  height?: number // px
+  ref?: Ref<JsonCodeEditorHandle>
+}
+
+// Gutter, highlights and text share one line height so they stay aligned
+const LINE_HEIGHT = 20
+const PADDING_TOP = 8
+
+const SEVERITY_ORDER: ValidationIssue['severity'][] = ['CRITICAL', 'ERROR', 'WARNING', 'INFO']
+
+const MARKER_COLORS: Record<ValidationIssue['severity'], { dot: string; band: string }> = {
+  CRITICAL: { dot: 'bg-red-600', band: 'bg-red-100' },
+  ERROR: { dot: 'bg-orange-600', band: 'bg-orange-100' },
+  WARNING: { dot: 'bg-yellow-500', band: 'bg-yellow-50' },
+  INFO: { dot: 'bg-blue-500', band: 'bg-blue-50' },
+}
+
+/**
+ * Plain-text JSON editor with line numbers, a gutter marker on every line that has
+ * issues (worst severity shown, messages on hover) and `jumpTo` for moving the caret
+ * to a line. Lines do not wrap, so the gutter always lines up with the text.
+ */
+export default function JsonCodeEditor({ value, onChange, markers = [], placeholder, height = 360, ref }: JsonCodeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
+  const highlightRef = useRef<HTMLDivElement>(null)
+  const [activeLine, setActiveLine] = useState<number | null>(null)
+
+  const lineCount = useMemo(() => value.split('\n').length, [value])
+
+  // Markers per line, worst severity first
+  const markersByLine = useMemo(() => {
+    const byLine = new Map<number, EditorMarker[]>()
+    markers.forEach(marker => {
+      byLine.set(marker.line, [...(byLine.get(marker.line) ?? []), marker])
+    })
+    byLine.forEach(lineMarkers => {
+      lineMarkers.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+    })
+    return byLine
+  }, [markers])
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop
+    if (highlightRef.current) {
+      highlightRef.current.style.transform = `translate(${-textarea.scrollLeft}px, ${-textarea.scrollTop}px)`
+    }
+  }
+
+  const jumpTo = (line: number, column = 1) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+
+    const lines = value.split('\n')
+    const targetLine = Math.min(Math.max(line, 1), lines.length)
+    let offset = 0
+    for (let i = 0; i < targetLine - 1; i++) offset += lines[i].length + 1
+    offset += Math.min(Math.max(column - 1, 0), lines[targetLine - 1].length)
+
+    textarea.focus()
+    textarea.setSelectionRange(offset, offset)
+    textarea.scrollTop = Math.max(0, (targetLine - 1) * LINE_HEIGHT - textarea.clientHeight / 3)
+    setActiveLine(targetLine)
+    syncScroll()
+  }
+
+  useImperativeHandle(ref, () => ({ jumpTo }))
+
+  return (
+    <div className="flex border border-gray-300 rounded bg-white overflow-hidden focus-within:ring-2 focus-within:ring-indigo-500" style={{ height }}>
+      <div
+        ref={gutterRef}
+        className="flex-shrink-0 overflow-hidden bg-gray-50 border-r border-gray-200 text-right font-mono text-xs text-gray-400 select-none"
+        style={{ paddingTop: PADDING_TOP }}
+      >
+        {Array.from({ length: lineCount }, (_, index) => {
+          const line = index + 1
+          const lineMarkers = markersByLine.get(line)
+          return (
+            <div key={line} className="flex items-center gap-1 pl-1 pr-2" style={{ height: LINE_HEIGHT }}>
+              {lineMarkers ? (
+                <button
+                  type="button"
+                  onClick={() => jumpTo(line, lineMarkers[0].column)}
+                  title={lineMarkers.map(marker => `[${marker.severity}] ${marker.message}`).join('\n')}
+                  className={`w-2.5 h-2.5 rounded-full ${MARKER_COLORS[lineMarkers[0].severity].dot}`}
+                />
+              ) : (
+                <span className="w-2.5" />
+              )}
+              <span className={lineMarkers ? 'text-gray-700' : ''}>{line}</span>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="relative flex-1 overflow-hidden">
+        <div ref={highlightRef} className="absolute inset-0 pointer-events-none" aria-hidden>
+          {[...markersByLine.entries()].map(([line, lineMarkers]) => (
+            <div
+              key={line}
+              className={`absolute left-0 w-[10000px] ${MARKER_COLORS[lineMarkers[0].severity].band}`}
+              style={{ top: PADDING_TOP + (line - 1) * LINE_HEIGHT, height: LINE_HEIGHT }}
+            />
+          ))}
+          {activeLine !== null && (
+            <div
+              className="absolute left-0 w-[10000px] border-y border-indigo-300"
+              style={{ top: PADDING_TOP + (activeLine - 1) * LINE_HEIGHT, height: LINE_HEIGHT }}
+            />
+          )}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          onClick={() => setActiveLine(null)}
+          placeholder={placeholder}
+          wrap="off"
+          spellCheck={false}
+          className="relative w-full h-full resize-none bg-transparent px-3 font-mono text-xs focus:outline-none whitespace-pre overflow-auto"
+          style={{ lineHeight: `${LINE_HEIGHT}px`, paddingTop: PADDING_TOP, paddingBottom: PADDING_TOP }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { useMemo } from 'react'
+import { diffHunks, diffLines } from '@/lib/lineDiff'
+
+interface JsonDiffPreviewProps {
+  before: string
+  after: string
+}
+
+/**
+ * Unified diff of two texts, showing only the changed lines and a little context
+ */
+export default function JsonDiffPreview({ before, after }: JsonDiffPreviewProps) {
+  const hunks = useMemo(() => diffHunks(diffLines(before, after)), [before, after])
+
+  if (hunks.length === 0) {
+    return <p className="text-sm text-gray-600">No changes</p>
+  }
+
+  return (
+    <div className="border border-gray-300 rounded overflow-x-auto bg-white font-mono text-xs">
+      {hunks.map((hunk, hunkIndex) => (
+        <div key={hunkIndex} className={hunkIndex > 0 ? 'border-t border-dashed border-gray-300' : ''}>
+          {hunk.lines.map((line, lineIndex) => (
+            <div
+              key={lineIndex}
+              className={`flex whitespace-pre ${
+                line.kind === 'added' ? 'bg-green-50 text-green-900' : line.kind === 'removed' ? 'bg-red-50 text-red-900' : 'text-gray-600'
+              }`}
+            >
+              <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">{line.oldLine ?? ''}</span>
+              <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">{line.newLine ?? ''}</span>
+              <span className="w-4 flex-shrink-0 select-none">
+                {line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '}
+              </span>
+              <span>{line.text}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
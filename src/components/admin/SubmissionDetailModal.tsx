@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase'
 import type { Submission, Task, Rubric, Artifact } from '@/types/database'
+import { hashTaskGraders, isGradedWithStaleConfig } from '@/lib/graderSnapshot'
 import RubricForm from '../labeler/RubricForm'
 import ArtifactViewer from '../labeler/ArtifactViewer'
 
@@ -27,12 +28,24 @@ export default function SubmissionDetailModal({ submissionId, onClose, onUpdate
   const [submitting, setSubmitting] = useState(false)
   const [tab, setTab] = useState<'response' | 'grader_results'>('response')
   const [totalSubmissions, setTotalSubmissions] = useState(1)
+  const [currentGraderHash, setCurrentGraderHash] = useState<string | undefined>()
   const supabase = createClient()
 
   useEffect(() => {
     loadSubmissionDetails()
   }, [submissionId])
 
+  useEffect(() => {
+    if (!task) return
+    let cancelled = false
+    hashTaskGraders(task).then(hash => {
+      if (!cancelled) setCurrentGraderHash(hash)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [task])
+
   const loadSubmissionDetails = async () => {
     setLoading(true)
 
@@ -218,6 +231,7 @@ export default function SubmissionDetailModal({ submissionId, onClose, onUpdate
 
   const hasGraders = task.graders && task.graders.length > 0
   const hasRubric = rubric !== null
+  const gradedWithStaleConfig = isGradedWithStaleConfig(submission, currentGraderHash)
 
   const isReviewed = submission.status === 'reviewed'
 
@@ -271,6 +285,14 @@ export default function SubmissionDetailModal({ submissionId, onClose, onUpdate
                   <p className="text-gray-600">
                     <span className="font-medium">Auto-Graded Score:</span>{' '}
                     <span className="font-semibold text-lg text-indigo-600">{submission.score.toFixed(1)}%</span>
+                    {gradedWithStaleConfig && (
+                      <span
+                        className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-800 rounded text-xs font-medium"
+                        title="The task's graders changed after this submission was graded. Regrade the task to refresh the score."
+                      >
+                        Outdated grader config
+                      </span>
+                    )}
                   </p>
                 )}
                 {submission.reviewed_at && (
@@ -395,10 +417,10 @@ export default function SubmissionDetailModal({ submissionId, onClose, onUpdate
                                         {fieldValue !== undefined ? String(fieldValue) : '(no response)'}
                                       </p>
                                       <div className="mt-1.5 flex items-center gap-2 text-xs">
-                                        {field.comparator.config.expected !== undefined && (
+                                        {field.comparator?.config.expected !== undefined && (
                                           <div className="px-2 py-1 bg-blue-50 border border-blue-200 rounded">
                                             <span className="text-blue-700">Expected:</span>{' '}
-                                            <span className="text-blue-900 font-mono">{String(field.comparator.config.expected)}</span>
+                                            <span className="text-blue-900 font-mono">{String(field.comparator?.config.expected)}</span>
                                           </div>
                                         )}
                                         <div className="px-2 py-1 bg-gray-100 border border-gray-300 rounded">
@@ -468,6 +490,16 @@ export default function SubmissionDetailModal({ submissionId, onClose, onUpdate
 
           {tab === 'grader_results' && hasGraders && submission.grader_results && (
             <div className="space-y-4">
+              {gradedWithStaleConfig && (
+                <div className="p-3 bg-amber-50 border border-amber-300 rounded text-sm text-amber-900">
+                  <p className="font-semibold">Graded against an outdated grader config</p>
+                  <p className="mt-1">
+                    The task&apos;s graders or score aggregation changed after this submission was graded, so these
+                    results may not match the current graders. Regrade the task to refresh them.
+                  </p>
+                </div>
+              )}
+
               <div className="p-4 bg-indigo-50 border border-indigo-200 rounded">
                 <h3 className="text-sm font-semibold text-indigo-900 mb-2">Auto-Grading Summary</h3>
                 <div className="grid grid-cols-3 gap-4 text-sm">
@@ -559,6 +591,13 @@ export default function SubmissionDetailModal({ submissionId, onClose, onUpdate
                                       {detail.weight !== undefined && (
                                         <p className="text-gray-500">Weight: {String(detail.weight)}</p>
                                       )}
+                                      {detail.matchedAlternative !== undefined && (
+                                        <p className="text-indigo-600">
+                                          Matched alternative #{Number(detail.matchedAlternative) + 1}
+                                          {detail.matchedLabel !== undefined && ` (${String(detail.matchedLabel)})`}
+                                          {' • '}{Math.round(Number(detail.credit ?? 1) * 100)}% credit
+                                        </p>
+                                      )}
                                     </div>
                                   </div>
                                 )
@@ -571,6 +610,20 @@ export default function SubmissionDetailModal({ submissionId, onClose, onUpdate
                     ))}
                   </div>
                 )}
+
+              {submission.grader_snapshot && (
+                <details className="border border-gray-200 rounded p-3">
+                  <summary className="text-sm text-gray-700 cursor-pointer">
+                    Grader config used
+                    {submission.grader_config_hash && (
+                      <span className="ml-2 font-mono text-xs text-gray-500">{submission.grader_config_hash.slice(0, 12)}</span>
+                    )}
+                  </summary>
+                  <pre className="mt-2 text-xs bg-gray-50 border border-gray-200 rounded p-2 overflow-x-auto">
+                    {JSON.stringify(submission.grader_snapshot, null, 2)}
+                  </pre>
+                </details>
+              )}
             </div>
           )}
         </div>
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase'
 import type { Submission, Task } from '@/types/database'
+import { hashTaskGraders, isGradedWithStaleConfig } from '@/lib/graderSnapshot'
 import SubmissionDetailModal from './SubmissionDetailModal'
 import CompareSubmissionsModal from './CompareSubmissionsModal'
 
@@ -19,6 +20,7 @@ export default function SubmissionsReview() {
   const [selectedSubmissionId, setSelectedSubmissionId] = useState<string | null>(null)
   const [compareTaskId, setCompareTaskId] = useState<string | null>(null)
   const [filter, setFilter] = useState<'all' | 'submitted' | 'reviewed' | 'revision_requested'>('all')
+  const [currentGraderHashes, setCurrentGraderHashes] = useState<Map<string, string>>(new Map())
   const supabase = createClient()
 
   useEffect(() => {
@@ -137,6 +139,12 @@ export default function SubmissionsReview() {
     }
     const tasksData = taskResults.flatMap(r => r.data || [])
 
+    // Hash each task's current graders to spot scores from an older config
+    const graderHashes = await Promise.all(
+      tasksData.map(async (task: Task) => [task.id, await hashTaskGraders(task)] as const)
+    )
+    setCurrentGraderHashes(new Map(graderHashes))
+
     // Batch fetch labeler profiles
     const labelerBatches: string[][] = []
     for (let i = 0; i < labelerIds.length; i += BATCH_SIZE) {
@@ -349,6 +357,14 @@ export default function SubmissionsReview() {
                         Submitted by: <span className="font-medium">{submission.labeler_email}</span>
                       </p>
                     </div>
+                    {isGradedWithStaleConfig(submission, currentGraderHashes.get(submission.task_id)) && (
+                      <span
+                        className="px-3 py-1 rounded text-sm font-medium bg-amber-100 text-amber-800"
+                        title="Graded before the task's graders last changed. Regrade the task to refresh the score."
+                      >
+                        Outdated Score
+                      </span>
+                    )}
                     <span className={`px-3 py-1 rounded text-sm font-medium ${getStatusColor(getDisplayStatus(submission))}`}>
                       {getStatusLabel(getDisplayStatus(submission))}
                     </span>
@@ -2,7 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase'
-import type { Task, Rubric, TaskAssignment } from '@/types/database'
+import type { Task, Rubric, TaskAssignment, TaskStatus } from '@/types/database'
+import type { RegradeResult } from '@/lib/regrade'
 
 interface TaskDetailModalProps {
   taskId: string
@@ -16,6 +17,12 @@ interface UserProfile {
   role: string
 }
 
+const REGRADE_STATUS_OPTIONS: TaskStatus[] = ['submitted', 'reviewed', 'completed', 'revision_requested', 'in_progress']
+
+function formatScore(score: number | null): string {
+  return score === null ? '—' : `${score.toFixed(1)}%`
+}
+
 export default function TaskDetailModal({ taskId, onClose, onUpdate }: TaskDetailModalProps) {
   const [task, setTask] = useState<Task | null>(null)
   const [rubric, setRubric] = useState<Rubric | null>(null)
@@ -25,7 +32,11 @@ export default function TaskDetailModal({ taskId, onClose, onUpdate }: TaskDetai
   const [loading, setLoading] = useState(true)
   const [assigning, setAssigning] = useState(false)
   const [deleting, setDeleting] = useState(false)
-  const [tab, setTab] = useState<'details' | 'rubric' | 'assign'>('details')
+  const [tab, setTab] = useState<'details' | 'rubric' | 'assign' | 'regrade'>('details')
+  const [regradeStatuses, setRegradeStatuses] = useState<TaskStatus[]>(['submitted', 'reviewed', 'completed', 'revision_requested'])
+  const [includeReviewerCreated, setIncludeReviewerCreated] = useState(false)
+  const [regradeResult, setRegradeResult] = useState<RegradeResult | null>(null)
+  const [regrading, setRegrading] = useState(false)
   const supabase = createClient()
 
   useEffect(() => {
@@ -165,6 +176,52 @@ export default function TaskDetailModal({ taskId, onClose, onUpdate }: TaskDetai
     }
   }
 
+  const runRegrade = async (commit: boolean) => {
+    if (commit && regradeResult) {
+      const { summary } = regradeResult
+      const confirmed = confirm(
+        `Apply the new grader results to ${summary.changed} submission(s)?\n\n` +
+        `${summary.improved} score(s) go up, ${summary.worsened} go down.\n` +
+        `${summary.newlyPassing} newly passing, ${summary.newlyFailing} newly failing.\n\n` +
+        'Previous scores are kept in the regrade history.'
+      )
+      if (!confirmed) return
+    }
+
+    setRegrading(true)
+    try {
+      const res = await fetch('/api/regrade', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          taskIds: [taskId],
+          statuses: regradeStatuses,
+          includeReviewerCreated,
+          commit,
+          // Commit saves exactly what the preview showed instead of grading again
+          previewed: commit && regradeResult
+            ? regradeResult.entries
+              .filter(entry => entry.afterResults && entry.token)
+              .map(entry => ({ submissionId: entry.submissionId, afterResults: entry.afterResults, token: entry.token }))
+            : undefined,
+        }),
+      })
+      const result = await res.json()
+      if (!res.ok) throw new Error(result.error || `Regrade failed with status ${res.status}`)
+
+      setRegradeResult(result)
+      if (commit) {
+        alert(`Regrade applied to ${result.summary.changed} submission(s).`)
+        onUpdate()
+      }
+    } catch (error) {
+      console.error('Error regrading submissions:', error)
+      alert(`Failed to regrade: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setRegrading(false)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
       draft: 'bg-gray-100 text-gray-800',
@@ -238,6 +295,14 @@ export default function TaskDetailModal({ taskId, onClose, onUpdate }: TaskDetai
             >
               Reassign ({assignments.length} labelers)
             </button>
+            {task.graders && task.graders.length > 0 && (
+              <button
+                onClick={() => setTab('regrade')}
+                className={`px-4 py-2 rounded ${tab === 'regrade' ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}
+              >
+                Regrade
+              </button>
+            )}
           </div>
         </div>
 
@@ -330,19 +395,19 @@ export default function TaskDetailModal({ taskId, onClose, onUpdate }: TaskDetai
                                         <span className="text-xs text-gray-500">({field.type})</span>
                                       </p>
                                       <p className="text-sm text-gray-600 mt-1">
-                                        Comparator: <span className="font-mono">{field.comparator.type}</span>
+                                        Comparator: <span className="font-mono">{field.comparator?.type ?? 'presence'}</span>
                                       </p>
-                                      {field.comparator.config.expected !== undefined && (
+                                      {field.comparator?.config.expected !== undefined && (
                                         <p className="text-sm text-gray-600">
                                           Expected: <span className="font-mono">{String(field.comparator.config.expected)}</span>
                                         </p>
                                       )}
-                                      {field.comparator.type === 'range' && (
+                                      {field.comparator?.type === 'range' && (
                                         <p className="text-sm text-gray-600">
                                           Range: {field.comparator.config.min ?? '-∞'} to {field.comparator.config.max ?? '∞'}
                                         </p>
                                       )}
-                                      {field.comparator.type === 'regex' && field.comparator.config.pattern && (
+                                      {field.comparator?.type === 'regex' && field.comparator.config.pattern && (
                                         <p className="text-sm text-gray-600">
                                           Pattern: <span className="font-mono">{field.comparator.config.pattern}</span>
                                         </p>
@@ -480,6 +545,155 @@ export default function TaskDetailModal({ taskId, onClose, onUpdate }: TaskDetai
               )}
             </div>
           )}
+
+          {tab === 'regrade' && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Regrade Submissions</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  Re-run the current graders over existing submissions. Preview the impact first; nothing is saved until you apply it.
+                </p>
+              </div>
+
+              <div className="border border-gray-200 rounded p-4 space-y-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Submission statuses</p>
+                  <div className="flex flex-wrap gap-3">
+                    {REGRADE_STATUS_OPTIONS.map(status => (
+                      <label key={status} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={regradeStatuses.includes(status)}
+                          onChange={(e) => {
+                            setRegradeResult(null)
+                            setRegradeStatuses(e.target.checked
+                              ? [...regradeStatuses, status]
+                              : regradeStatuses.filter(s => s !== status))
+                          }}
+                          className="w-4 h-4 text-indigo-600 rounded"
+                        />
+                        {status.replace('_', ' ')}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeReviewerCreated}
+                    onChange={(e) => {
+                      setRegradeResult(null)
+                      setIncludeReviewerCreated(e.target.checked)
+                    }}
+                    className="w-4 h-4 text-indigo-600 rounded"
+                  />
+                  Include reviewer-created answers
+                </label>
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => runRegrade(false)}
+                    disabled={regrading || regradeStatuses.length === 0}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded font-medium disabled:opacity-50"
+                  >
+                    {regrading ? 'Grading...' : 'Preview Regrade'}
+                  </button>
+                </div>
+              </div>
+
+              {regradeResult && (
+                <div className="space-y-4">
+                  {regradeResult.summary.total === 0 ? (
+                    <div className="text-center py-8 bg-gray-50 rounded border-2 border-dashed border-gray-300">
+                      <p className="text-gray-600">No submissions match these filters</p>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-4 gap-3">
+                        <div className="bg-gray-50 border border-gray-200 rounded p-3">
+                          <p className="text-xs text-gray-500">Changed</p>
+                          <p className="text-xl font-semibold text-gray-900">
+                            {regradeResult.summary.changed} / {regradeResult.summary.total}
+                          </p>
+                        </div>
+                        <div className="bg-green-50 border border-green-200 rounded p-3">
+                          <p className="text-xs text-green-700">Improved</p>
+                          <p className="text-xl font-semibold text-green-900">{regradeResult.summary.improved}</p>
+                        </div>
+                        <div className="bg-red-50 border border-red-200 rounded p-3">
+                          <p className="text-xs text-red-700">Worsened</p>
+                          <p className="text-xl font-semibold text-red-900">{regradeResult.summary.worsened}</p>
+                        </div>
+                        <div className="bg-gray-50 border border-gray-200 rounded p-3">
+                          <p className="text-xs text-gray-500">Average score</p>
+                          <p className="text-xl font-semibold text-gray-900">
+                            {formatScore(regradeResult.summary.averageBefore)} → {formatScore(regradeResult.summary.averageAfter)}
+                          </p>
+                        </div>
+                      </div>
+
+                      <p className="text-sm text-gray-600">
+                        {regradeResult.summary.newlyPassing} newly passing, {regradeResult.summary.newlyFailing} newly failing
+                        {regradeResult.summary.errors > 0 && (
+                          <span className="text-red-600">, {regradeResult.summary.errors} could not be graded</span>
+                        )}
+                        {regradeResult.summary.stale > 0 && (
+                          <span className="text-amber-700">, {regradeResult.summary.stale} graded with an older grader config</span>
+                        )}
+                      </p>
+
+                      <div className="border border-gray-200 rounded overflow-hidden">
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-50 text-gray-600">
+                            <tr>
+                              <th className="text-left px-3 py-2 font-medium">Labeler</th>
+                              <th className="text-left px-3 py-2 font-medium">Status</th>
+                              <th className="text-right px-3 py-2 font-medium">Before</th>
+                              <th className="text-right px-3 py-2 font-medium">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {regradeResult.entries.map(entry => {
+                              const delta = (entry.afterScore ?? 0) - (entry.beforeScore ?? 0)
+                              return (
+                                <tr key={entry.submissionId} className="border-t border-gray-100">
+                                  <td className="px-3 py-2 text-gray-900">
+                                    {labelers.find(l => l.id === entry.labelerId)?.email || entry.labelerId}
+                                  </td>
+                                  <td className="px-3 py-2 text-gray-600">{entry.status.replace('_', ' ')}</td>
+                                  <td className="px-3 py-2 text-right font-mono">{formatScore(entry.beforeScore)}</td>
+                                  <td className="px-3 py-2 text-right font-mono">
+                                    {entry.error ? (
+                                      <span className="text-red-600" title={entry.error}>error</span>
+                                    ) : (
+                                      <span className={delta > 0 ? 'text-green-700' : delta < 0 ? 'text-red-700' : 'text-gray-900'}>
+                                        {formatScore(entry.afterScore)}
+                                      </span>
+                                    )}
+                                  </td>
+                                </tr>
+                              )
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      {!regradeResult.committed && (
+                        <div className="flex justify-end">
+                          <button
+                            onClick={() => runRegrade(true)}
+                            disabled={regrading || (regradeResult.summary.changed === 0 && regradeResult.summary.stale === 0)}
+                            className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded font-medium disabled:opacity-50"
+                          >
+                            {regrading ? 'Applying...' : `Apply to ${regradeResult.summary.changed} Submission(s)`}
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,239 @@
+'use client'
+
+import { useState } from 'react'
+import { FIELD_TYPES } from '@/lib/graderSchema'
+import type { FieldType } from '@/types/database'
+import {
+  TASK_IMPORT_FORMATS,
+  csvToTasks,
+  detectTaskImportFormat,
+  guessCsvMapping,
+  inferFieldType,
+  parseCsv,
+  parseJsonlTasks,
+  parseYamlTasks,
+  toFieldId,
+  type CsvColumnMapping,
+  type TaskImportFormat,
+} from '@/lib/taskImport'
+
+interface TaskImportPanelProps {
+  onImport: (json: string) => void // Task JSON for the editor
+  onError: (message: string) => void
+}
+
+/**
+ * Loads tasks from a JSON, JSONL, YAML or CSV file into the bulk upload editor as
+ * task JSON, where they are validated like pasted JSON. CSV files need their columns
+ * mapped to task fields first.
+ */
+export default function TaskImportPanel({ onImport, onError }: TaskImportPanelProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [format, setFormat] = useState<TaskImportFormat>('json')
+  const [text, setText] = useState('')
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null)
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null)
+
+  const headers = csvRows?.[0] ?? []
+
+  const convert = (source: string, sourceFormat: TaskImportFormat, sourceName: string) => {
+    setCsvRows(null)
+    setMapping(null)
+    try {
+      if (sourceFormat === 'json') {
+        onImport(source)
+      } else if (sourceFormat === 'jsonl') {
+        onImport(JSON.stringify(parseJsonlTasks(source), null, 2))
+      } else if (sourceFormat === 'yaml') {
+        onImport(JSON.stringify(parseYamlTasks(source), null, 2))
+      } else {
+        const rows = parseCsv(source, sourceName.toLowerCase().endsWith('.tsv') ? '\t' : ',')
+        if (rows.length < 2) throw new Error('CSV needs a header row and at least one task row')
+        setCsvRows(rows)
+        setMapping(guessCsvMapping(rows))
+      }
+    } catch (e) {
+      onError(`Could not import ${sourceName}: ${e instanceof Error ? e.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleFile = async (file: File) => {
+    const fileText = await file.text()
+    const detected = detectTaskImportFormat(file.name) ?? 'json'
+    setFileName(file.name)
+    setFormat(detected)
+    setText(fileText)
+    convert(fileText, detected, file.name)
+  }
+
+  const convertCsv = () => {
+    if (!csvRows || !mapping) return
+    try {
+      // A column chosen as the name or prompt is no longer an answer
+      const fieldColumns = [mapping.name, mapping.prompt, mapping.description, mapping.assignTo]
+      const answers = mapping.answers.filter(answer => !fieldColumns.includes(answer.column))
+      onImport(JSON.stringify(csvToTasks(csvRows, { ...mapping, answers }), null, 2))
+      setCsvRows(null)
+      setMapping(null)
+    } catch (e) {
+      onError(`Could not convert ${fileName}: ${e instanceof Error ? e.message : 'Unknown error'}`)
+    }
+  }
+
+  const answerFor = (column: string) => mapping?.answers.find(answer => answer.column === column)
+
+  const toggleAnswer = (column: string) => {
+    if (!mapping) return
+    setMapping({
+      ...mapping,
+      answers: answerFor(column)
+        ? mapping.answers.filter(answer => answer.column !== column)
+        : [
+          ...mapping.answers,
+          {
+            column,
+            field: toFieldId(column),
+            type: inferFieldType((csvRows ?? []).slice(1).map(row => row[headers.indexOf(column)] ?? '')),
+          },
+        ],
+    })
+  }
+
+  const updateAnswer = (column: string, changes: { field?: string; type?: FieldType }) => {
+    if (!mapping) return
+    setMapping({
+      ...mapping,
+      answers: mapping.answers.map(answer => (answer.column === column ? { ...answer, ...changes } : answer)),
+    })
+  }
+
+  const columnSelect = (label: string, value: string | undefined, onChange: (column: string) => void, optional = false) => (
+    <label className="block text-xs font-medium text-gray-700">
+      {label}
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm font-normal"
+      >
+        <option value="">{optional ? '(none)' : 'Choose a column'}</option>
+        {headers.map(header => (
+          <option key={header} value={header}>{header}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center gap-2 text-sm">
+        <label className="px-3 py-1 bg-white border border-gray-300 rounded text-gray-700 hover:bg-gray-50 cursor-pointer">
+          Import File
+          <input
+            type="file"
+            accept={Object.values(TASK_IMPORT_FORMATS).flatMap(({ extensions }) => extensions).join(',')}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+        {fileName && (
+          <>
+            <span className="text-gray-600 truncate">{fileName}</span>
+            <select
+              value={format}
+              onChange={(e) => {
+                const selected = e.target.value as TaskImportFormat
+                setFormat(selected)
+                convert(text, selected, fileName)
+              }}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+              title="Read the file as"
+            >
+              {(Object.keys(TASK_IMPORT_FORMATS) as TaskImportFormat[]).map(option => (
+                <option key={option} value={option}>{TASK_IMPORT_FORMATS[option].label}</option>
+              ))}
+            </select>
+          </>
+        )}
+        <span className="text-xs text-gray-500">JSON, JSONL, YAML or CSV</span>
+      </div>
+
+      {csvRows && mapping && (
+        <div className="mt-3 p-3 bg-white border border-gray-300 rounded space-y-3">
+          <p className="text-sm text-gray-700">
+            Map the columns of {fileName} ({csvRows.length - 1} row(s), one task each).
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            {columnSelect('Task name *', mapping.name, column => setMapping({ ...mapping, name: column }))}
+            {columnSelect('Prompt *', mapping.prompt, column => setMapping({ ...mapping, prompt: column }))}
+            {columnSelect('Description', mapping.description, column => setMapping({ ...mapping, description: column || undefined }), true)}
+            {columnSelect('Assign to (emails)', mapping.assignTo, column => setMapping({ ...mapping, assignTo: column || undefined }), true)}
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-1">
+              Expected answers (each becomes a field of an XML grader; list items separated by &quot;;&quot;)
+            </p>
+            <div className="space-y-1">
+              {headers
+                .filter(header => ![mapping.name, mapping.prompt, mapping.description, mapping.assignTo].includes(header))
+                .map(header => {
+                  const answer = answerFor(header)
+                  return (
+                    <div key={header} className="flex items-center gap-2 text-sm">
+                      <label className="flex items-center gap-2 w-48 truncate">
+                        <input type="checkbox" checked={!!answer} onChange={() => toggleAnswer(header)} />
+                        {header}
+                      </label>
+                      {answer && (
+                        <>
+                          <input
+                            value={answer.field}
+                            onChange={(e) => updateAnswer(header, { field: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded font-mono text-xs w-40"
+                            title="Field id (XML tag)"
+                          />
+                          <select
+                            value={answer.type}
+                            onChange={(e) => updateAnswer(header, { type: e.target.value as FieldType })}
+                            className="px-2 py-1 border border-gray-300 rounded text-xs"
+                          >
+                            {FIELD_TYPES.map(type => (
+                              <option key={type} value={type}>{type}</option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                    </div>
+                  )
+                })}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setCsvRows(null)
+                setMapping(null)
+              }}
+              className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={convertCsv}
+              disabled={!mapping.name || !mapping.prompt}
+              className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Convert to Task JSON
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
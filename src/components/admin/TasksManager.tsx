@@ -399,7 +399,6 @@ export default function TasksManager({ userId, userRole }: TasksManagerProps) {
 
       {showCreateModal && (
         <CreateTaskModal
-          userId={userId}
           onClose={() => setShowCreateModal(false)}
           onSuccess={() => {
             setShowCreateModal(false)
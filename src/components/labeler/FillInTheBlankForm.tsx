@@ -1,11 +1,15 @@
 'use client'
 
-import type { GraderConfig } from '@/types/database'
+import type { GraderConfig, GraderStructureField } from '@/types/database'
+import { hasChildElements, structurePath } from '@/lib/xmlParser'
+import type { FormResponses } from '@/lib/submissionResponse'
+import { checkRule } from '@/lib/graderRules'
+import { ABSTAIN_ANSWER } from '@/lib/graderSchema'
 
 interface FillInTheBlankFormProps {
   graders: GraderConfig[]
-  formResponses: Record<string, string | number>
-  onChange: (responses: Record<string, string | number>) => void
+  formResponses: FormResponses
+  onChange: (responses: FormResponses) => void
   disabled?: boolean
 }
 
@@ -43,6 +47,151 @@ export default function FillInTheBlankForm({
     onChange(newResponses)
   }
 
+  const handleListChange = (fieldName: string, entries: string[]) => {
+    onChange({
+      ...formResponses,
+      [fieldName]: entries
+    })
+  }
+
+  // List fields take one entry per row; order only matters for the equals comparator
+  const renderListInput = (field: GraderStructureField, path: string) => {
+    const stored = formResponses[path]
+    const entries = Array.isArray(stored) && stored.length > 0 ? stored : ['']
+    const isNumeric = field.item_type === 'int' || field.item_type === 'float'
+
+    return (
+      <div className="space-y-2">
+        {entries.map((entry, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type={isNumeric ? 'number' : 'text'}
+              step={field.item_type === 'float' ? 'any' : field.item_type === 'int' ? '1' : undefined}
+              value={entry}
+              onChange={(e) => handleListChange(path, entries.map((other, i) => (i === index ? e.target.value : other)))}
+              disabled={disabled}
+              placeholder={`Item ${index + 1}...`}
+              className="flex-1 px-3 py-2 border-b-2 border-green-400 bg-yellow-50 focus:bg-white focus:border-green-600 rounded text-gray-900 font-sans focus:outline-none disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
+            />
+            <button
+              type="button"
+              onClick={() => handleListChange(path, entries.filter((_, i) => i !== index))}
+              disabled={disabled || entries.length === 1}
+              className="px-2 py-1 text-xs font-sans text-red-600 hover:bg-red-50 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Remove item"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => handleListChange(path, [...entries, ''])}
+          disabled={disabled}
+          className="px-2 py-1 text-xs font-sans text-green-700 hover:bg-green-100 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          + Add item
+        </button>
+      </div>
+    )
+  }
+
+  // Renders a structure item; nested items render as indented child tags keyed by their full path
+  const renderStructureField = (field: GraderStructureField, parentPath: string, depth: number): React.ReactNode => {
+    const path = structurePath(parentPath, field)
+    const children = field.children ?? []
+
+    if (hasChildElements(field)) {
+      return (
+        <div key={path} className="space-y-3" style={{ marginLeft: depth * 16 }}>
+          <span className="block text-blue-600 select-none">&lt;{field.name}&gt;</span>
+          {children.map(child => renderStructureField(child, path, depth + 1))}
+          <span className="block text-blue-600 select-none">&lt;/{field.name}&gt;</span>
+        </div>
+      )
+    }
+
+    const fieldValue = formResponses[path] || ''
+    const isAbstained = !!field.allow_abstain && fieldValue === ABSTAIN_ANSWER
+
+    // Determine input type and attributes based on field type
+    const isNumeric = field.type === 'int' || field.type === 'float'
+    const inputType = isNumeric ? 'number' : field.type === 'date' ? 'date' : 'text'
+    const step = field.type === 'float' ? 'any' : field.type === 'int' ? '1' : undefined
+
+    return (
+      <div key={path} className="flex items-start gap-2" style={{ marginLeft: depth * 16 }}>
+        {/* Opening XML tag */}
+        <span className="text-blue-600 select-none flex-shrink-0 mt-2">
+          &lt;{field.name}&gt;
+        </span>
+
+        {/* Input field */}
+        <div className="flex-1">
+          {isAbstained ? (
+            <div className="px-3 py-2 rounded bg-gray-100 text-gray-500 italic font-sans">
+              Answered as unknown
+            </div>
+          ) : field.type === 'list' ? (
+            renderListInput(field, path)
+          ) : (
+            <input
+              type={inputType}
+              step={step}
+              value={Array.isArray(fieldValue) ? fieldValue.join(', ') : fieldValue}
+              onChange={(e) => handleFieldChange(path, e.target.value, field.type)}
+              disabled={disabled}
+              placeholder={`Enter ${field.type}...`}
+              className="w-full px-3 py-2 border-b-2 border-green-400 bg-yellow-50 focus:bg-white focus:border-green-600 rounded text-gray-900 font-sans focus:outline-none disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
+            />
+          )}
+
+          {/* Field metadata */}
+          <div className="mt-1 flex items-center gap-3 text-xs font-sans">
+            <span className="text-gray-600">
+              Type: <span className="font-semibold text-gray-800">
+                {field.type === 'list' ? `list of ${field.item_type ?? 'string'}` : field.type}
+              </span>
+            </span>
+            <span className="text-gray-600">
+              Weight: <span className="font-semibold text-indigo-600">{field.weight}</span>
+            </span>
+            {!!field.penalty && (
+              <span className="text-gray-600">
+                Wrong answer: <span className="font-semibold text-red-600">-{field.penalty}</span>
+              </span>
+            )}
+            {field.allow_abstain && (
+              <label className="flex items-center gap-1 text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isAbstained}
+                  onChange={(e) => handleFieldChange(path, e.target.checked ? ABSTAIN_ANSWER : '', 'string')}
+                  disabled={disabled}
+                />
+                I don&apos;t know
+              </label>
+            )}
+            {field.comparator && field.comparator.config && field.comparator.config.expected !== undefined && (
+              <span className="text-blue-600">
+                Expected: <span className="font-semibold font-mono">
+                  {Array.isArray(field.comparator.config.expected)
+                    ? field.comparator.config.expected.join(', ')
+                    : String(field.comparator.config.expected)}
+                </span>
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Closing XML tag */}
+        <span className="text-blue-600 select-none flex-shrink-0 mt-2">
+          &lt;/{field.name}&gt;
+        </span>
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
       {graders.map((grader, graderIndex) => {
@@ -69,64 +218,15 @@ export default function FillInTheBlankForm({
             {/* XML Fill-in-the-blank format */}
             <div className="bg-white rounded-lg p-4 border border-gray-300 font-mono text-sm space-y-3">
               {/* For structure-based graders (xml/json) */}
-              {hasStructure && grader.config.structure!.map((field, fieldIndex) => {
-                const fieldValue = formResponses[field.name] || ''
-
-                // Determine input type and attributes based on field type
-                const isNumeric = field.type === 'int' || field.type === 'float'
-                const inputType = isNumeric ? 'number' : field.type === 'boolean' ? 'text' : 'text'
-                const step = field.type === 'float' ? 'any' : field.type === 'int' ? '1' : undefined
-
-                return (
-                  <div key={fieldIndex} className="flex items-start gap-2">
-                    {/* Opening XML tag */}
-                    <span className="text-blue-600 select-none flex-shrink-0 mt-2">
-                      &lt;{field.name}&gt;
-                    </span>
-
-                    {/* Input field */}
-                    <div className="flex-1">
-                      <input
-                        type={inputType}
-                        step={step}
-                        value={fieldValue}
-                        onChange={(e) => handleFieldChange(field.name, e.target.value, field.type)}
-                        disabled={disabled}
-                        placeholder={`Enter ${field.type}...`}
-                        className="w-full px-3 py-2 border-b-2 border-green-400 bg-yellow-50 focus:bg-white focus:border-green-600 rounded text-gray-900 font-sans focus:outline-none disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
-                      />
-
-                      {/* Field metadata */}
-                      <div className="mt-1 flex items-center gap-3 text-xs font-sans">
-                        <span className="text-gray-600">
-                          Type: <span className="font-semibold text-gray-800">{field.type}</span>
-                        </span>
-                        <span className="text-gray-600">
-                          Weight: <span className="font-semibold text-indigo-600">{field.weight}</span>
-                        </span>
-                        {field.comparator && field.comparator.config && field.comparator.config.expected !== undefined && (
-                          <span className="text-blue-600">
-                            Expected: <span className="font-semibold font-mono">{String(field.comparator.config.expected)}</span>
-                          </span>
-                        )}
-                      </div>
-                    </div>
-
-                    {/* Closing XML tag */}
-                    <span className="text-blue-600 select-none flex-shrink-0 mt-2">
-                      &lt;/{field.name}&gt;
-                    </span>
-                  </div>
-                )
-              })}
+              {hasStructure && grader.config.structure!.map(field => renderStructureField(field, '', 0))}
 
               {/* For test_cases-based graders (unit_test) */}
               {hasTestCases && grader.config.test_cases!.map((testCase: { id: string; expected_value?: unknown }, fieldIndex: number) => {
                 const fieldValue = formResponses[testCase.id] || ''
 
-                // Try to infer type from expected value
+                // Try to infer type from expected value; unit answers carry their unit as text
                 const expectedType = typeof testCase.expected_value
-                const isNumeric = expectedType === 'number'
+                const isNumeric = expectedType === 'number' && grader.type !== 'unit'
                 const inputType = isNumeric ? 'number' : 'text'
                 const step = isNumeric ? 'any' : undefined
 
@@ -171,6 +271,17 @@ export default function FillInTheBlankForm({
               })}
             </div>
 
+            {/* Cross-field rules the current answers break; unanswered rules stay quiet */}
+            {(grader.config.rules ?? [])
+              .map(rule => ({ rule, check: checkRule(rule, formResponses) }))
+              .filter(({ check }) => !check.passed && !check.missingFields && !check.error)
+              .map(({ rule, check }) => (
+                <div key={rule.id} className="mt-3 text-xs text-yellow-900 bg-yellow-50 border border-yellow-300 p-2 rounded">
+                  <strong>⚠ {rule.name ?? 'Answers are inconsistent'}:</strong>{' '}
+                  <span className="font-mono">{rule.formula}</span> does not hold ({check.left} vs {check.right})
+                </div>
+              ))}
+
             {/* Helper text */}
             <div className="mt-3 text-xs text-green-800 bg-green-100 p-2 rounded">
               <strong>💡 Tip:</strong> Fill in each field between the XML tags. Your response will be auto-formatted and graded.
@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase'
 import type { Task, Submission } from '@/types/database'
-import { evaluateResponse } from '@/lib/grader'
+import { findMissingField, hasStructuredGrader, type FormResponses } from '@/lib/submissionResponse'
 import FillInTheBlankForm from './FillInTheBlankForm'
 
 interface LabelerTaskDetailProps {
@@ -17,7 +17,7 @@ export default function LabelerTaskDetail({ taskId, labelerId, onClose, onSubmit
   const [task, setTask] = useState<Task | null>(null)
   const [submission, setSubmission] = useState<Submission | null>(null)
   const [responseText, setResponseText] = useState('')
-  const [formResponses, setFormResponses] = useState<Record<string, string | number>>({})
+  const [formResponses, setFormResponses] = useState<FormResponses>({})
   const [editedPrompt, setEditedPrompt] = useState('')
   const [labelerComment, setLabelerComment] = useState('')
   const [flaggedUnsolvable, setFlaggedUnsolvable] = useState(false)
@@ -66,7 +66,7 @@ export default function LabelerTaskDetail({ taskId, labelerId, onClose, onSubmit
         }
         // Load form responses for structured graders
         if ('formData' in submissionData.response_data && typeof submissionData.response_data.formData === 'object') {
-          const formData = submissionData.response_data.formData as Record<string, string | number>
+          const formData = submissionData.response_data.formData as FormResponses
           console.log('Loading form data:', formData)
           setFormResponses(formData)
         }
@@ -87,221 +87,60 @@ export default function LabelerTaskDetail({ taskId, labelerId, onClose, onSubmit
     if (!task) return
 
     // Check if we're using form-based or text-based response
-    const hasStructuredGrader = task.graders?.some(g => {
-      if (!g || !g.config) return false
-      const hasStructure = g.config.structure && Array.isArray(g.config.structure) && g.config.structure.length > 0
-      const hasTestCases = g.config.test_cases && Array.isArray(g.config.test_cases) && g.config.test_cases.length > 0
-      return hasStructure || hasTestCases
-    })
-
-    let responseToGrade = ''
-
-    if (hasStructuredGrader) {
-      // Find the grader (either structure or test_cases based)
-      const grader = task.graders?.find(g => {
-        if (!g || !g.config) return false
-        return (g.config.structure && g.config.structure.length > 0) || (g.config.test_cases && g.config.test_cases.length > 0)
-      })
+    const structured = hasStructuredGrader(task.graders)
 
-      // Validate form responses
-      if (grader) {
-        // For structure-based graders
-        if (grader.config.structure) {
-          console.log('=== VALIDATION DEBUG ===')
-          console.log('formResponses:', formResponses)
-          console.log('grader.config.structure:', grader.config.structure)
-
-          for (const field of grader.config.structure) {
-            const value = formResponses[field.name]
-            console.log(`Checking field "${field.name}":`, {
-              value,
-              type: typeof value,
-              isUndefined: value === undefined,
-              isNull: value === null,
-              isEmpty: value === '',
-              isEmptyString: typeof value === 'string' && value.trim() === ''
-            })
-
-            const isEmpty = value === undefined || value === null || value === '' ||
-                           (typeof value === 'string' && value.trim() === '')
-            if (isEmpty) {
-              alert(`Please fill in the "${field.name}" field before submitting.`)
-              return
-            }
-          }
-        }
-        // For test_cases-based graders (unit_test)
-        if (grader.config.test_cases) {
-          for (const testCase of grader.config.test_cases) {
-            const value = formResponses[testCase.id]
-            const isEmpty = value === undefined || value === null || value === '' ||
-                           (typeof value === 'string' && value.trim() === '')
-            if (isEmpty) {
-              alert(`Please fill in the "${testCase.id}" field before submitting.`)
-              return
-            }
-          }
-        }
-      }
-
-      // Construct XML or JSON from form responses
-      if (grader?.type === 'xml' || grader?.type === 'unit_test') {
-        responseToGrade = Object.entries(formResponses)
-          .map(([key, value]) => `<${key}>${value}</${key}>`)
-          .join('\n')
-      } else if (grader?.type === 'json') {
-        responseToGrade = JSON.stringify(formResponses, null, 2)
-      }
-    } else {
-      // Use plain text response
-      if (!responseText.trim()) {
-        alert('Please provide a response before submitting.')
+    if (structured) {
+      const missingField = findMissingField(task.graders || [], formResponses)
+      if (missingField) {
+        alert(`Please fill in the "${missingField}" field before submitting.`)
         return
       }
-      responseToGrade = responseText
+    } else if (!responseText.trim()) {
+      alert('Please provide a response before submitting.')
+      return
     }
 
     setSubmitting(true)
 
     try {
-      // Evaluate the response with graders
-      let graderResults = null
-      let score = null
-
-      if (task.graders && Array.isArray(task.graders) && task.graders.length > 0) {
-        console.log('Evaluating response:', responseToGrade)
-        console.log('With graders:', JSON.stringify(task.graders, null, 2))
-        try {
-          const evaluation = await evaluateResponse(responseToGrade, task.graders)
-          console.log('Evaluation result:', evaluation)
-          graderResults = evaluation
-          score = evaluation.percentageScore
-        } catch (evalError) {
-          console.error('Grader evaluation failed:', evalError)
-          console.error('Error stack:', evalError instanceof Error ? evalError.stack : 'No stack')
-          throw new Error(`Grading failed: ${evalError instanceof Error ? evalError.message : 'Unknown grading error'}`)
-        }
+      // Grading and saving happen server-side so scores cannot be set from the browser
+      const requestBody = {
+        taskId,
+        ...(structured ? { formData: formResponses } : { text: responseText }),
+        editedPrompt,
+        labelerComment,
+        flaggedUnsolvable,
       }
+      console.log('Submitting response:', requestBody)
 
-      const responseData = hasStructuredGrader
-        ? { formData: formResponses, generatedResponse: responseToGrade, editedPrompt: editedPrompt }
-        : { text: responseText, editedPrompt: editedPrompt }
-
-      console.log('Submitting response data:', responseData)
-      console.log('Grader results:', graderResults)
-      console.log('Score:', score)
-
-      if (submission) {
-        // Update existing submission
-        console.log('Updating existing submission:', submission.id)
-        console.log('Previous submission status:', submission.status)
-
-        // Determine status: if flagged as unsolvable, keep status as 'in_progress' so it doesn't appear in review queue
-        // Only flagged tasks should go to the "Flagged Tasks" queue, not the regular review queue
-        const submissionStatus = flaggedUnsolvable ? 'in_progress' as const : 'submitted' as const
-
-        // For revision_requested submissions, also clear review fields to allow resubmission
-        const updateData: Record<string, unknown> = {
-          response_data: responseData,
-          rubric_data: {}, // Legacy field, provide empty object
-          grader_results: graderResults,
-          score: score,
-          status: submissionStatus,
-          submitted_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          labeler_comment: labelerComment || null,
-          flagged_unsolvable: flaggedUnsolvable,
-        }
-
-        // If this was a revision request, clear the review fields
-        if (submission.status === 'revision_requested') {
-          console.log('Clearing review fields for revision_requested submission')
-          updateData.reviewed_at = null
-          updateData.reviewed_by = null
-          updateData.feedback = null
-        }
-
-        console.log('Update data:', updateData)
-
-        const { data: updatedData, error } = await supabase
-          .from('submissions')
-          .update(updateData)
-          .eq('id', submission.id)
-          .select()
-
-        if (error) {
-          console.error('=== DATABASE UPDATE FAILED ===')
-          console.error('Error code:', error.code)
-          console.error('Error message:', error.message)
-          console.error('Error details:', error.details)
-          console.error('Error hint:', error.hint)
-          console.error('Full error object:', JSON.stringify(error, null, 2))
-
-          // More detailed error for user
-          let errorMsg = `Failed to update submission: ${error.message}`
-          if (error.code === '42501' || error.message?.includes('permission') || error.message?.includes('policy')) {
-            errorMsg = '🚫 PERMISSION ERROR\n\n'
-            errorMsg += 'You do not have permission to update this submission.\n\n'
-            errorMsg += 'This is a database security policy issue. An administrator needs to update the Row Level Security (RLS) policy to allow labelers to update submissions with status "revision_requested".\n\n'
-            errorMsg += `Error: ${error.message}\n\n`
-            errorMsg += 'Please contact the administrator and share this screenshot.'
-          } else if (error.hint) {
-            errorMsg += `\n\nHint: ${error.hint}`
-          }
-
-          // Show error to user immediately
-          alert(errorMsg)
-          throw new Error(errorMsg)
-        }
-
-        if (!updatedData || updatedData.length === 0) {
-          console.error('=== UPDATE RETURNED NO DATA ===')
-          console.error('This might indicate a permissions issue or the row was not found')
-          alert('⚠️ WARNING: Update completed but no data was returned. This might indicate a permissions issue. Please check with an administrator.')
+      const res = await fetch('/api/submissions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody),
+      })
+      const result = await res.json().catch(() => ({}))
+
+      if (!res.ok) {
+        console.error('=== SUBMISSION FAILED ===')
+        console.error('Status:', res.status)
+        console.error('Response:', result)
+
+        let errorMsg = result.error || `Submission failed with status ${res.status}`
+        if (res.status === 401 || res.status === 403) {
+          errorMsg = '🚫 PERMISSION ERROR\n\n'
+          errorMsg += 'You do not have permission to submit this task.\n\n'
+          errorMsg += `Error: ${result.error || res.statusText}\n\n`
+          errorMsg += 'Please contact the administrator and share this screenshot.'
         }
+        throw new Error(errorMsg)
+      }
 
-        console.log('=== SUBMISSION UPDATED SUCCESSFULLY ===')
-        console.log('Updated submission data:', updatedData)
+      console.log('Evaluation result:', result.evaluation)
+      console.log('Saved submission:', result.submission)
 
+      if (result.resubmitted) {
         // Show success message to user
         alert('✅ Success! Your revised submission has been saved and resubmitted for review.')
-      } else {
-        // Create new submission
-        console.log('Creating new submission')
-
-        // Determine status: if flagged as unsolvable, keep status as 'in_progress' so it doesn't appear in review queue
-        const submissionStatus = flaggedUnsolvable ? 'in_progress' as const : 'submitted' as const
-
-        const insertData = {
-          task_id: taskId,
-          labeler_id: labelerId,
-          response_data: responseData,
-          rubric_data: {}, // Legacy field, provide empty object
-          grader_results: graderResults,
-          score: score,
-          status: submissionStatus,
-          submitted_at: new Date().toISOString(),
-          labeler_comment: labelerComment || null,
-          flagged_unsolvable: flaggedUnsolvable,
-        }
-        console.log('Insert data:', insertData)
-
-        const { error } = await supabase
-          .from('submissions')
-          .insert(insertData)
-
-        if (error) {
-          console.error('Database insert error:', error)
-          throw error
-        }
-        console.log('Submission created successfully')
-
-        // Update task status
-        console.log('Updating task status')
-        await supabase
-          .from('tasks')
-          .update({ status: 'submitted' })
-          .eq('id', taskId)
       }
 
       console.log('Calling onSubmit callback')
@@ -322,14 +161,7 @@ export default function LabelerTaskDetail({ taskId, labelerId, onClose, onSubmit
     setSubmitting(true)
 
     try {
-      const hasStructuredGrader = task.graders?.some(g => {
-        if (!g || !g.config) return false
-        const hasStructure = g.config.structure && Array.isArray(g.config.structure) && g.config.structure.length > 0
-        const hasTestCases = g.config.test_cases && Array.isArray(g.config.test_cases) && g.config.test_cases.length > 0
-        return hasStructure || hasTestCases
-      })
-
-      const responseData = hasStructuredGrader
+      const responseData = hasStructuredGrader(task.graders)
         ? { formData: formResponses, editedPrompt: editedPrompt }
         : { text: responseText, editedPrompt: editedPrompt }
 
@@ -433,17 +265,11 @@ export default function LabelerTaskDetail({ taskId, labelerId, onClose, onSubmit
   console.log('Form should be editable:', !isReadOnly && !canUnsubmit)
 
   // Check if task uses structured graders (form-based) or plain text
-  const hasStructuredGrader = task.graders && Array.isArray(task.graders) && task.graders.length > 0 && task.graders.some(g => {
-    if (!g || !g.config) return false
-    // Support both structure (xml/json) and test_cases (unit_test)
-    const hasStructure = g.config.structure && Array.isArray(g.config.structure) && g.config.structure.length > 0
-    const hasTestCases = g.config.test_cases && Array.isArray(g.config.test_cases) && g.config.test_cases.length > 0
-    return hasStructure || hasTestCases
-  })
+  const usesForm = hasStructuredGrader(task.graders)
 
   // Debug logging
   console.log('Task graders:', task.graders)
-  console.log('Has structured grader:', hasStructuredGrader)
+  console.log('Has structured grader:', usesForm)
   if (task.graders && task.graders.length > 0) {
     task.graders.forEach((grader, index) => {
       console.log(`Grader ${index}:`, grader)
@@ -551,7 +377,7 @@ export default function LabelerTaskDetail({ taskId, labelerId, onClose, onSubmit
           )}
 
           {/* Response Input - Fill-in-the-blank for structured graders */}
-          {hasStructuredGrader ? (
+          {usesForm ? (
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-gray-900">Your Response</h3>
               <p className="text-sm text-gray-600 mb-4">
@@ -585,7 +411,7 @@ export default function LabelerTaskDetail({ taskId, labelerId, onClose, onSubmit
           )}
 
           {/* Info message */}
-          {!hasStructuredGrader && task.graders && task.graders.length > 0 && (
+          {!usesForm && task.graders && task.graders.length > 0 && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
               <p className="text-xs text-blue-900">
                 ✓ Your response will be automatically graded when you submit.
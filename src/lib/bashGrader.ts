@@ -0,0 +1,295 @@
+import { spawn } from 'child_process'
+import { constants } from 'fs'
+import { access, mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { GraderConfig } from '@/types/database'
+import type { GraderResult } from '@/lib/grader'
+
+// Server-only: runs admin-authored bash grader scripts in a throwaway child process.
+// Never import this module from a client component.
+//
+// Scripts run inside a bubblewrap (bwrap) sandbox: no network, a fresh PID namespace,
+// read-only system directories and no view of the project (its .env files) or the
+// host's /proc; only the temp work directory is writable. Where bwrap is not installed,
+// bash graders refuse to run unless BASH_GRADER_ALLOW_UNSANDBOXED=true, which runs them
+// as the server's user with its file and network access, i.e. as trusted admin code.
+
+const DEFAULT_TIMEOUT_MS = 5000
+const MAX_TIMEOUT_MS = 30000
+const DEFAULT_MEMORY_LIMIT_MB = 256
+const MAX_MEMORY_LIMIT_MB = 1024
+const MAX_OUTPUT_BYTES = 64 * 1024
+const MAX_FILE_SIZE_KB = 10 * 1024
+const BWRAP_PATHS = ['/usr/bin/bwrap', '/usr/local/bin/bwrap', '/bin/bwrap']
+// How long after the script exits to wait for output still in the pipes
+const OUTPUT_GRACE_MS = 200
+
+interface BashRunOutput {
+  exitCode: number | null
+  signal: NodeJS.Signals | null
+  stdout: string
+  stderr: string
+  timedOut: boolean
+  durationMs: number
+}
+
+/**
+ * Runs a bash grader against a labeler response.
+ *
+ * The script receives the response on stdin and as the file named by $RESPONSE_FILE.
+ * Exit code 0 passes, anything else fails. If the last line of stdout is a number
+ * between 0 and 1, or a JSON object with a numeric "score" in that range, it is used
+ * as the fraction of the grader weight awarded (partial credit).
+ */
+export async function runBashGrader(
+  responseText: string,
+  grader: GraderConfig
+): Promise<GraderResult> {
+  const script = grader.config.script
+  const maxScore = grader.weight
+
+  if (typeof script !== 'string' || !script.trim()) {
+    return {
+      graderName: grader.name,
+      score: 0,
+      maxScore,
+      passed: false,
+      details: { error: 'Bash grader has no script' },
+    }
+  }
+
+  const sandbox = await findSandbox()
+  if (!sandbox) {
+    return {
+      graderName: grader.name,
+      score: 0,
+      maxScore,
+      passed: false,
+      details: {
+        error: 'Bash graders need bubblewrap (bwrap) on the server; set BASH_GRADER_ALLOW_UNSANDBOXED=true to run them without it',
+      },
+    }
+  }
+
+  const output = await runSandboxed(script, responseText, sandbox, {
+    timeoutMs: clamp(grader.config.timeout_ms, DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS),
+    memoryLimitMb: clamp(grader.config.memory_limit_mb, DEFAULT_MEMORY_LIMIT_MB, MAX_MEMORY_LIMIT_MB),
+  })
+
+  const exitedCleanly = output.exitCode === 0 && !output.timedOut
+  const reportedFraction = parseReportedScore(output.stdout)
+
+  let fraction = exitedCleanly ? 1 : 0
+  if (exitedCleanly && reportedFraction !== null) {
+    fraction = reportedFraction
+  }
+
+  const score = fraction * maxScore
+
+  return {
+    graderName: grader.name,
+    score,
+    maxScore,
+    passed: exitedCleanly && score === maxScore,
+    details: {
+      exitCode: output.exitCode,
+      signal: output.signal,
+      timedOut: output.timedOut,
+      durationMs: output.durationMs,
+      reportedScore: reportedFraction,
+      stdout: output.stdout,
+      stderr: output.stderr,
+    },
+  }
+}
+
+let bwrapPath: Promise<string | null> | null = null
+
+// The bwrap binary, 'unsandboxed' when allowed without one, or null when bash graders can't run
+async function findSandbox(): Promise<string | null> {
+  bwrapPath ??= (async () => {
+    for (const candidate of BWRAP_PATHS) {
+      try {
+        await access(candidate, constants.X_OK)
+        return candidate
+      } catch {
+        // Try the next location
+      }
+    }
+    return null
+  })()
+
+  const found = await bwrapPath
+  if (found) return found
+  return process.env.BASH_GRADER_ALLOW_UNSANDBOXED === 'true' ? 'unsandboxed' : null
+}
+
+// bwrap arguments exposing only system directories (read-only) and the work directory
+function bwrapArgs(workDir: string): string[] {
+  return [
+    '--unshare-all', // Network, PID, IPC, UTS and user namespaces
+    '--die-with-parent',
+    '--new-session',
+    '--ro-bind', '/usr', '/usr',
+    '--ro-bind-try', '/bin', '/bin',
+    '--ro-bind-try', '/sbin', '/sbin',
+    '--ro-bind-try', '/lib', '/lib',
+    '--ro-bind-try', '/lib64', '/lib64',
+    '--ro-bind-try', '/etc/alternatives', '/etc/alternatives',
+    '--ro-bind-try', '/etc/ld.so.cache', '/etc/ld.so.cache',
+    '--proc', '/proc',
+    '--dev', '/dev',
+    '--tmpfs', '/tmp',
+    '--bind', workDir, workDir,
+    '--chdir', workDir,
+  ]
+}
+
+/**
+ * Executes a script with hard resource limits in a fresh temp directory and a minimal
+ * environment, inside the bwrap sandbox unless `sandbox` is 'unsandboxed'
+ */
+async function runSandboxed(
+  script: string,
+  stdin: string,
+  sandbox: string,
+  limits: { timeoutMs: number; memoryLimitMb: number }
+): Promise<BashRunOutput> {
+  const workDir = await mkdtemp(path.join(tmpdir(), 'bash-grader-'))
+  const scriptPath = path.join(workDir, 'grader.sh')
+  const responsePath = path.join(workDir, 'response.txt')
+
+  try {
+    await writeFile(scriptPath, script, { mode: 0o500 })
+    await writeFile(responsePath, stdin, { mode: 0o400 })
+
+    // A wrapper shell sets the limits, then execs the grader script. They are hard
+    // limits (-H and -S), which the script cannot raise again. CPU time gets one extra
+    // second over wall time so the wall-clock timer fires first.
+    const cpuSeconds = Math.ceil(limits.timeoutMs / 1000) + 1
+    const wrapper = [
+      `ulimit -HS -v ${limits.memoryLimitMb * 1024}`,
+      `ulimit -HS -t ${cpuSeconds}`,
+      `ulimit -HS -f ${MAX_FILE_SIZE_KB}`,
+      'exec bash --noprofile --norc "$0"',
+    ].join(' && ')
+    const command = ['bash', '--noprofile', '--norc', '-c', wrapper, scriptPath]
+    const [program, ...args] = sandbox === 'unsandboxed' ? command : [sandbox, ...bwrapArgs(workDir), ...command]
+
+    return await new Promise<BashRunOutput>((resolve, reject) => {
+      const startedAt = Date.now()
+      const child = spawn(program, args, {
+        cwd: workDir,
+        detached: true, // Own process group, so the whole tree can be killed on timeout
+        env: {
+          PATH: '/usr/local/bin:/usr/bin:/bin',
+          HOME: workDir,
+          TMPDIR: workDir,
+          LANG: 'C.UTF-8',
+          NODE_ENV: process.env.NODE_ENV,
+          RESPONSE_FILE: responsePath,
+        },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      })
+
+      let stdout = ''
+      let stderr = ''
+      let timedOut = false
+
+      const killGroup = () => {
+        try {
+          if (child.pid) process.kill(-child.pid, 'SIGKILL')
+        } catch {
+          // Process group already exited
+        }
+      }
+
+      const timer = setTimeout(() => {
+        timedOut = true
+        killGroup()
+      }, limits.timeoutMs)
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        stdout = appendCapped(stdout, chunk)
+      })
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr = appendCapped(stderr, chunk)
+      })
+
+      // The script may exit without reading stdin; ignore the resulting EPIPE
+      child.stdin.on('error', () => {})
+      child.stdin.end(stdin)
+
+      child.on('error', (error) => {
+        clearTimeout(timer)
+        reject(error)
+      })
+
+      // The result is ready when the script exits, not when its pipes close: a background
+      // process it started may hold stdout open long after. Those are killed, and
+      // whatever output is already buffered is collected.
+      let exited: { exitCode: number | null; signal: NodeJS.Signals | null } | null = null
+      let settled = false
+      let graceTimer: NodeJS.Timeout | undefined
+      const finish = () => {
+        if (settled || !exited) return
+        settled = true
+        clearTimeout(graceTimer)
+        child.stdout.destroy()
+        child.stderr.destroy()
+        resolve({
+          ...exited,
+          stdout,
+          stderr,
+          timedOut,
+          durationMs: Date.now() - startedAt,
+        })
+      }
+
+      child.on('exit', (exitCode, signal) => {
+        clearTimeout(timer)
+        exited = { exitCode, signal }
+        // Reap anything the script left running in the background
+        killGroup()
+        graceTimer = setTimeout(finish, OUTPUT_GRACE_MS)
+      })
+      child.on('close', finish)
+    })
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Reads an optional partial-credit score from the last non-empty line of stdout
+ */
+function parseReportedScore(stdout: string): number | null {
+  const lines = stdout.trim().split('\n')
+  const lastLine = lines[lines.length - 1]?.trim()
+  if (!lastLine) return null
+
+  let value: unknown = Number(lastLine)
+  if (lastLine.startsWith('{')) {
+    try {
+      value = (JSON.parse(lastLine) as { score?: unknown }).score
+    } catch {
+      return null
+    }
+  }
+
+  if (typeof value !== 'number' || isNaN(value) || value < 0 || value > 1) {
+    return null
+  }
+  return value
+}
+
+function appendCapped(current: string, chunk: Buffer): string {
+  if (current.length >= MAX_OUTPUT_BYTES) return current
+  return (current + chunk.toString('utf8')).slice(0, MAX_OUTPUT_BYTES)
+}
+
+function clamp(value: unknown, fallback: number, max: number): number {
+  if (typeof value !== 'number' || !isFinite(value) || value <= 0) return fallback
+  return Math.min(value, max)
+}
@@ -0,0 +1,68 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { TaskDefinition } from '@/types/database'
+import type { ConflictResolution, TaskConflict } from '@/lib/taskConflicts'
+
+export type BulkCreateAction = 'created' | 'overwritten' | 'new_version' | 'skipped'
+
+export interface BulkCreateRow {
+  task_index: number // Position in the upload's tasks array
+  task_id: string
+  action: BulkCreateAction
+}
+
+// One element of bulk_create_tasks' p_tasks argument
+interface BulkCreateTaskInput {
+  name: string
+  description: string | null
+  prompt: string
+  graders: TaskDefinition['graders']
+  score_aggregation: NonNullable<TaskDefinition['score_aggregation']>
+  assign_to: string[]
+  resolution: ConflictResolution | null
+  existing_task_id: string | null
+}
+
+export function buildBulkCreateInput(
+  tasks: TaskDefinition[],
+  conflicts: TaskConflict[],
+  resolutions: Record<number, ConflictResolution>
+): BulkCreateTaskInput[] {
+  const conflictsByIndex = new Map(conflicts.map(conflict => [conflict.index, conflict]))
+
+  // Examples are grader self-tests and are not stored with the task
+  return tasks.map((task, index) => {
+    const conflict = conflictsByIndex.get(index)
+    return {
+      name: task.name,
+      description: task.description || null,
+      prompt: task.prompt,
+      graders: task.graders,
+      score_aggregation: task.score_aggregation || 'weighted_sum',
+      assign_to: (task.assign_to || []).map(email => email.trim()),
+      resolution: conflict ? resolutions[index] ?? 'skip' : null,
+      existing_task_id: conflict ? conflict.existing.id : null,
+    }
+  })
+}
+
+/**
+ * Creates the uploaded tasks through the bulk_create_tasks database function, which
+ * runs in one transaction: if any task fails, none are created. Returns one row per
+ * uploaded task, in order.
+ */
+export async function bulkCreateTasks(
+  supabase: SupabaseClient,
+  tasks: TaskDefinition[],
+  conflicts: TaskConflict[],
+  resolutions: Record<number, ConflictResolution>
+): Promise<BulkCreateRow[]> {
+  const { data, error } = await supabase.rpc('bulk_create_tasks', {
+    p_tasks: buildBulkCreateInput(tasks, conflicts, resolutions),
+  })
+
+  if (error) {
+    throw new Error(`No tasks were created: ${error.message}`)
+  }
+
+  return (data || []) as BulkCreateRow[]
+}
@@ -0,0 +1,148 @@
+import type { DateGranularity } from '@/lib/graderSchema'
+
+export interface ParsedDate {
+  year: number
+  month: number // 1-12
+  day: number // 1-31
+  precision: DateGranularity // Finest unit the text gave ("March 2024" is month precision)
+  timestamp: number // UTC milliseconds at the start of the date (or the written time)
+}
+
+const MONTHS: Record<string, number> = {
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6,
+  july: 7, august: 8, september: 9, october: 10, november: 11, december: 12,
+  jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+}
+
+const MS_PER_DAY = 86400000
+
+const ISO_PATTERN =
+  /^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?)?$/i
+const NUMERIC_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/
+const MONTH_FIRST_PATTERN = /^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i
+const DAY_FIRST_PATTERN = /^(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]+)\.?,?\s+(\d{4})$/i
+const MONTH_YEAR_PATTERN = /^([a-z]+)\.?,?\s+(\d{4})$/i
+const WEEKDAY_PREFIX = /^(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+/i
+
+/**
+ * Parses a date as labelers write it: "2024-03-01", "2024-03-01T14:30Z", "March 1, 2024",
+ * "1st March 2024", "Fri, Mar 1 2024", "03/01/2024", "March 2024" or "2024".
+ * All-numeric dates are read month first unless `dayFirst` is set or the first number
+ * cannot be a month. Returns null for text that is not a valid calendar date.
+ */
+export function parseDate(text: string, dayFirst = false): ParsedDate | null {
+  const value = text.trim().replace(WEEKDAY_PREFIX, '')
+
+  const iso = value.match(ISO_PATTERN)
+  if (iso) {
+    const [, year, month, day, hours, minutes, seconds, offset] = iso
+    return buildDate(
+      Number(year),
+      Number(month),
+      day === undefined ? 1 : Number(day),
+      day === undefined ? 'month' : 'day',
+      hours === undefined ? 0 : ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds ?? 0)) * 1000,
+      offset
+    )
+  }
+
+  if (/^\d{4}$/.test(value)) {
+    return buildDate(Number(value), 1, 1, 'year')
+  }
+
+  const numeric = value.match(NUMERIC_PATTERN)
+  if (numeric) {
+    const first = Number(numeric[1])
+    const second = Number(numeric[2])
+    const readDayFirst = first > 12 || (dayFirst && second <= 12)
+    return readDayFirst
+      ? buildDate(Number(numeric[3]), second, first, 'day')
+      : buildDate(Number(numeric[3]), first, second, 'day')
+  }
+
+  const monthFirst = value.match(MONTH_FIRST_PATTERN)
+  if (monthFirst) {
+    return buildDate(Number(monthFirst[3]), monthNumber(monthFirst[1]), Number(monthFirst[2]), 'day')
+  }
+
+  const dayFirstMatch = value.match(DAY_FIRST_PATTERN)
+  if (dayFirstMatch) {
+    return buildDate(Number(dayFirstMatch[3]), monthNumber(dayFirstMatch[2]), Number(dayFirstMatch[1]), 'day')
+  }
+
+  const monthYear = value.match(MONTH_YEAR_PATTERN)
+  if (monthYear) {
+    return buildDate(Number(monthYear[2]), monthNumber(monthYear[1]), 1, 'month')
+  }
+
+  return null
+}
+
+/**
+ * Whether `date` states at least the given granularity (a year alone cannot match a day)
+ */
+export function isPreciseEnough(date: ParsedDate, granularity: DateGranularity): boolean {
+  const order: DateGranularity[] = ['year', 'month', 'day']
+  return order.indexOf(date.precision) >= order.indexOf(granularity)
+}
+
+/**
+ * Orderable key of a date truncated to a granularity, for equality and range checks
+ */
+export function dateKey(date: ParsedDate, granularity: DateGranularity): number {
+  switch (granularity) {
+    case 'year':
+      return date.year
+    case 'month':
+      return date.year * 12 + date.month
+    default:
+      return Date.UTC(date.year, date.month - 1, date.day) / MS_PER_DAY
+  }
+}
+
+/**
+ * Signed difference between two dates in (possibly fractional) days
+ */
+export function daysBetween(from: ParsedDate, to: ParsedDate): number {
+  return (to.timestamp - from.timestamp) / MS_PER_DAY
+}
+
+/**
+ * ISO form of a parsed date at its own precision ("2024-03-01", "2024-03", "2024")
+ */
+export function formatDate(date: ParsedDate): string {
+  const month = String(date.month).padStart(2, '0')
+  const day = String(date.day).padStart(2, '0')
+  if (date.precision === 'year') return String(date.year)
+  if (date.precision === 'month') return `${date.year}-${month}`
+  return `${date.year}-${month}-${day}`
+}
+
+function monthNumber(name: string): number {
+  const key = name.toLowerCase()
+  return Object.prototype.hasOwnProperty.call(MONTHS, key) ? MONTHS[key] : NaN
+}
+
+function buildDate(
+  year: number,
+  month: number,
+  day: number,
+  precision: DateGranularity,
+  timeOfDay = 0,
+  offset?: string
+): ParsedDate | null {
+  if (!Number.isInteger(month) || month < 1 || month > 12 || day < 1) return null
+
+  // Date.UTC rolls invalid days over ("February 30" becomes March 1), so check the round trip
+  const midnight = Date.UTC(year, month - 1, day)
+  if (new Date(midnight).getUTCDate() !== day || timeOfDay >= MS_PER_DAY) return null
+
+  return { year, month, day, precision, timestamp: midnight + timeOfDay - offsetMilliseconds(offset) }
+}
+
+function offsetMilliseconds(offset: string | undefined): number {
+  if (!offset || offset.toUpperCase() === 'Z') return 0
+  const sign = offset[0] === '-' ? -1 : 1
+  const digits = offset.slice(1).replace(':', '')
+  return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * 60000
+}
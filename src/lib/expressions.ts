@@ -0,0 +1,219 @@
+/**
+ * Safe evaluation of the arithmetic labelers write as numeric answers ("1/4", "25%",
+ * "2.5e-1", "3 × 10^-2"). Expressions are parsed by a small recursive-descent parser;
+ * nothing is passed to eval or Function.
+ */
+
+export class ExpressionError extends Error {
+  position: number
+  arithmetic: boolean // The text parses, but its value is undefined (division by zero, overflow)
+
+  constructor(message: string, position: number, arithmetic = false) {
+    super(`${message} (at character ${position + 1})`)
+    this.name = 'ExpressionError'
+    this.position = position
+    this.arithmetic = arithmetic
+  }
+}
+
+// Answers are short; the limits keep pathological input from costing anything
+const MAX_EXPRESSION_LENGTH = 200
+const MAX_NESTING_DEPTH = 32
+
+const NUMBER_PATTERN = /^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/
+const OPERATOR_ALIASES: Record<string, string> = { '×': '*', '·': '*', '÷': '/', '−': '-', '**': '^' }
+
+// Names are identifiers, or any field path in braces ("{balance/end}")
+const NAME_PATTERN = /^(?:[A-Za-z_]\w*|\{[^{}]+\})/
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'operator' | 'name'; value: string; position: number }
+
+/**
+ * Evaluates an arithmetic expression: numbers (with exponents), + - * / ^, parentheses,
+ * unary signs and a postfix % (divides by 100), plus names looked up in `variables`.
+ * Throws an ExpressionError for anything else, including unknown names, division by
+ * zero and non-finite results.
+ */
+export function evaluateExpression(text: string, variables: Record<string, number> = {}): number {
+  if (text.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, 0)
+  }
+
+  const tokens = tokenize(text)
+  if (tokens.length === 0) throw new ExpressionError('Empty expression', 0)
+
+  let index = 0
+  let depth = 0
+  const peek = () => tokens[index]
+  const isOperator = (value: string) => peek()?.kind === 'operator' && peek().value === value
+  const end = () => (tokens.length > 0 ? tokens[tokens.length - 1].position + 1 : 0)
+
+  const parseSum = (): number => {
+    let value = parseProduct()
+    while (isOperator('+') || isOperator('-')) {
+      const operator = tokens[index++].value
+      const right = parseProduct()
+      value = operator === '+' ? value + right : value - right
+    }
+    return value
+  }
+
+  const parseProduct = (): number => {
+    let value = parseUnary()
+    while (isOperator('*') || isOperator('/')) {
+      const token = tokens[index++]
+      const right = parseUnary()
+      if (token.value === '/' && right === 0) throw new ExpressionError('Division by zero', token.position, true)
+      value = token.value === '*' ? value * right : value / right
+    }
+    return value
+  }
+
+  const parseUnary = (): number => {
+    if (isOperator('-') || isOperator('+')) {
+      const operator = tokens[index++].value
+      const value = nested(parseUnary)
+      return operator === '-' ? -value : value
+    }
+    return parsePower()
+  }
+
+  // Right-associative, and binds tighter than a leading sign: -2^2 is -4
+  const parsePower = (): number => {
+    const base = parsePercent()
+    if (!isOperator('^')) return base
+    index++
+    return Math.pow(base, nested(parseUnary))
+  }
+
+  const parsePercent = (): number => {
+    let value = parsePrimary()
+    while (isOperator('%')) {
+      index++
+      value /= 100
+    }
+    return value
+  }
+
+  const parsePrimary = (): number => {
+    const token = peek()
+    if (!token) throw new ExpressionError('Unexpected end of expression', end())
+    if (token.kind === 'number') {
+      index++
+      return token.value
+    }
+    if (token.kind === 'name') {
+      if (!Object.prototype.hasOwnProperty.call(variables, token.value)) {
+        throw new ExpressionError(`Unknown name "${token.value}"`, token.position)
+      }
+      index++
+      return variables[token.value]
+    }
+    if (token.value === '(') {
+      index++
+      const value = nested(parseSum)
+      if (!isOperator(')')) throw new ExpressionError('Missing closing parenthesis', peek()?.position ?? end())
+      index++
+      return value
+    }
+    throw new ExpressionError(`Unexpected "${token.value}"`, token.position)
+  }
+
+  const nested = (parse: () => number): number => {
+    if (++depth > MAX_NESTING_DEPTH) throw new ExpressionError('Expression is nested too deeply', peek()?.position ?? end())
+    const value = parse()
+    depth--
+    return value
+  }
+
+  const value = parseSum()
+  if (index < tokens.length) {
+    throw new ExpressionError(`Unexpected "${tokens[index].value}"`, tokens[index].position)
+  }
+  if (!Number.isFinite(value)) throw new ExpressionError('Result is not a finite number', 0, true)
+  return value
+}
+
+/**
+ * Names an expression refers to, in order of first use. Throws an ExpressionError when
+ * the text cannot be tokenized.
+ */
+export function expressionNames(text: string): string[] {
+  const names = tokenize(text).flatMap(token => (token.kind === 'name' ? [token.value] : []))
+  return [...new Set(names)]
+}
+
+/**
+ * Significant figures stated by a plain number as written ("0.250" → 3, "2.5e-1" → 2,
+ * "1200" → 2). Trailing zeros without a decimal point are not counted. Returns null
+ * for anything other than a single number literal, such as "1/4".
+ */
+export function countSignificantFigures(text: string): number | null {
+  const match = text.trim().match(/^[-+]?(\d*)(?:\.(\d*))?(?:[eE][-+]?\d+)?%?$/)
+  if (!match || (match[1] === '' && (match[2] ?? '') === '')) return null
+
+  const integerPart = match[1]
+  const fraction = match[2]
+  if (fraction === undefined) {
+    const digits = integerPart.replace(/^0+/, '').replace(/0+$/, '')
+    return Math.max(digits.length, 1)
+  }
+
+  const digits = (integerPart + fraction).replace(/^0+/, '')
+  return Math.max(digits.length, 1)
+}
+
+/**
+ * Rounds a value to the given number of significant figures
+ */
+export function roundToSignificantFigures(value: number, figures: number): number {
+  return value === 0 ? 0 : Number(value.toPrecision(figures))
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+
+  while (position < text.length) {
+    const rest = text.slice(position)
+    const whitespace = rest.match(/^\s+/)
+    if (whitespace) {
+      position += whitespace[0].length
+      continue
+    }
+
+    const number = rest.match(NUMBER_PATTERN)
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), position })
+      position += number[0].length
+      continue
+    }
+
+    const name = rest.match(NAME_PATTERN)
+    if (name) {
+      const value = name[0].startsWith('{') ? name[0].slice(1, -1).trim() : name[0]
+      tokens.push({ kind: 'name', value, position })
+      position += name[0].length
+      continue
+    }
+
+    const alias = Object.keys(OPERATOR_ALIASES).find(symbol => rest.startsWith(symbol))
+    if (alias) {
+      tokens.push({ kind: 'operator', value: OPERATOR_ALIASES[alias], position })
+      position += alias.length
+      continue
+    }
+
+    if ('+-*/^%()'.includes(rest[0])) {
+      tokens.push({ kind: 'operator', value: rest[0], position })
+      position += 1
+      continue
+    }
+
+    throw new ExpressionError(`Unexpected character "${rest[0]}"`, position)
+  }
+
+  return tokens
+}
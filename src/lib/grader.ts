@@ -1,19 +1,61 @@
-import type { GraderConfig, GraderStructureField } from '@/types/database'
+import type {
+  AlternativeAnswer,
+  ComparatorConfig,
+  ComparatorType,
+  GraderConfig,
+  GraderRule,
+  GraderStructureField,
+  GraderType,
+  ListItemType,
+  NormalizationConfig,
+  ScoreAggregation,
+} from '@/types/database'
+import { ABSTAIN_ANSWER, isGraderType } from '@/lib/graderSchema'
+import { parseXml, resolveList, resolveValue, findElement, structurePath, XmlParseError, type XmlElement } from '@/lib/xmlParser'
+import { delocalizeNumber, normalizeText, similarity } from '@/lib/normalization'
+import { parseQuantity } from '@/lib/units'
+import { countSignificantFigures, evaluateExpression, roundToSignificantFigures } from '@/lib/expressions'
+import { RegexSession } from '@/lib/safeRegex'
+import { checkRule } from '@/lib/graderRules'
+import { dateKey, daysBetween, formatDate, isPreciseEnough, parseDate, type ParsedDate } from '@/lib/dates'
 
-interface GraderResult {
+export interface GraderResult {
   graderName: string
   score: number
   maxScore: number
   passed: boolean
   details: Record<string, unknown>
+  penalty?: number // Points deducted for wrong answers, when any
+  abstained?: number // Fields the labeler abstained on, when any
+  skipped?: boolean // Not run (a bash grader where scripts can't run); left out of the totals
 }
 
-interface EvaluationResult {
+export interface EvaluationResult {
   totalScore: number
   maxScore: number
   percentageScore: number
   passed: boolean
+  aggregation: ScoreAggregation
   graderResults: GraderResult[]
+  penalty?: number // Totals over the graders, when any
+  abstained?: number
+  partial?: boolean // Some graders were skipped, so the score covers only the others
+}
+
+/**
+ * Runs a bash grader. Bash graders execute shell scripts, so they can only run
+ * server-side; callers supply an executor (the sandbox runner in API routes, or a
+ * stand-in where scripts cannot run).
+ */
+export type BashGraderExecutor = (
+  responseText: string,
+  grader: GraderConfig,
+  graderIndex: number
+) => Promise<GraderResult>
+
+export interface EvaluateOptions {
+  bashExecutor?: BashGraderExecutor
+  aggregation?: ScoreAggregation // Defaults to weighted_sum
 }
 
 /**
@@ -21,127 +63,448 @@ interface EvaluationResult {
  */
 export async function evaluateResponse(
   responseText: string,
-  graders: GraderConfig[]
+  graders: GraderConfig[],
+  options: EvaluateOptions = {}
 ): Promise<EvaluationResult> {
   const graderResults: GraderResult[] = []
-  let totalScore = 0
-  let maxScore = 0
 
-  for (const grader of graders) {
-    const result = await evaluateWithGrader(responseText, grader)
-    graderResults.push(result)
-    totalScore += result.score
-    maxScore += result.maxScore
+  for (const [graderIndex, grader] of graders.entries()) {
+    graderResults.push(await evaluateWithGrader(responseText, grader, graderIndex, options))
   }
 
+  return aggregateResults(graderResults, graders, options.aggregation ?? 'weighted_sum')
+}
+
+/**
+ * Synchronous variant of evaluateResponse for callers that cannot await, such as the
+ * task validator running a task's examples. Bash graders need a server, so they throw.
+ */
+export function evaluateResponseSync(
+  responseText: string,
+  graders: GraderConfig[],
+  aggregation: ScoreAggregation = 'weighted_sum'
+): EvaluationResult {
+  const graderResults = graders.map((grader, graderIndex) => {
+    const result = runGrader(responseText, grader, graderIndex, {})
+    if (result instanceof Promise) {
+      throw new Error(`Grader "${grader.name}" cannot be evaluated synchronously`)
+    }
+    return applyBinaryMode(result, grader)
+  })
+
+  return aggregateResults(graderResults, graders, aggregation)
+}
+
+/**
+ * Combines per-grader results into the task score.
+ *
+ * weighted_sum adds up grader points as-is. The other modes work on each grader's
+ * fraction (score / maxScore) and report totals in grader-weight units. Skipped graders
+ * count in none of them; the result is then marked partial.
+ */
+function aggregateResults(
+  allResults: GraderResult[],
+  allGraders: GraderConfig[],
+  aggregation: ScoreAggregation
+): EvaluationResult {
+  const counted = allResults.map((result, i) => ({ result, grader: allGraders[i] })).filter(({ result }) => !result.skipped)
+  const graderResults = counted.map(({ result }) => result)
+  const fractions = graderResults.map(r => (r.maxScore > 0 ? r.score / r.maxScore : 0))
+  const weights = counted.map(({ grader }) => grader.weight ?? 1)
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+
+  let totalScore: number
+  let maxScore: number
+
+  switch (aggregation) {
+    case 'weighted_mean':
+      maxScore = totalWeight
+      totalScore = fractions.reduce((sum, fraction, i) => sum + fraction * weights[i], 0)
+      break
+    case 'minimum':
+      maxScore = totalWeight
+      totalScore = graderResults.length > 0 ? Math.min(...fractions) * totalWeight : 0
+      break
+    case 'all_must_pass':
+      maxScore = totalWeight
+      totalScore = graderResults.length > 0 && graderResults.every(r => r.passed) ? totalWeight : 0
+      break
+    case 'weighted_sum':
+    default:
+      maxScore = graderResults.reduce((sum, r) => sum + r.maxScore, 0)
+      totalScore = graderResults.reduce((sum, r) => sum + r.score, 0)
+  }
+
+  const penalty = graderResults.reduce((sum, r) => sum + (r.penalty ?? 0), 0)
+  const abstained = graderResults.reduce((sum, r) => sum + (r.abstained ?? 0), 0)
+
   return {
     totalScore,
     maxScore,
     percentageScore: maxScore > 0 ? (totalScore / maxScore) * 100 : 0,
-    passed: totalScore === maxScore,
-    graderResults,
+    passed: maxScore > 0 && totalScore === maxScore,
+    aggregation,
+    graderResults: allResults,
+    ...(penalty > 0 ? { penalty } : {}),
+    ...(abstained > 0 ? { abstained } : {}),
+    ...(counted.length < allResults.length ? { partial: true } : {}),
   }
 }
 
 /**
- * Evaluates response with a single grader
+ * Evaluates response with a single grader, applying binary_mode when set
  */
 async function evaluateWithGrader(
   responseText: string,
-  grader: GraderConfig
+  grader: GraderConfig,
+  graderIndex: number,
+  options: EvaluateOptions
 ): Promise<GraderResult> {
-  switch (grader.type) {
-    case 'xml':
-      return evaluateXmlGrader(responseText, grader)
-    case 'json':
-      return evaluateJsonGrader(responseText, grader)
-    case 'text':
-      return evaluateTextGrader(responseText, grader)
-    case 'number':
-      return evaluateNumberGrader(responseText, grader)
-    case 'unit':
-    case 'unit_test':
-      return evaluateUnitTestGrader(responseText, grader)
-    default:
-      throw new Error(`Unknown grader type: ${grader.type}`)
+  return applyBinaryMode(await runGrader(responseText, grader, graderIndex, options), grader)
+}
+
+/**
+ * Binary graders are all-or-nothing: any failed field forfeits the whole grader
+ */
+function applyBinaryMode(result: GraderResult, grader: GraderConfig): GraderResult {
+  if (grader.config.binary_mode && !result.passed) {
+    return { ...result, score: 0 }
   }
+  return result
 }
 
+type GraderEvaluator = (
+  responseText: string,
+  grader: GraderConfig,
+  graderIndex: number,
+  options: EvaluateOptions
+) => GraderResult | Promise<GraderResult>
+
+/**
+ * Evaluator for every grader type in the shared schema. Keyed by GraderType, so a
+ * type the validator accepts cannot be missing here.
+ */
+const GRADER_EVALUATORS: Record<GraderType, GraderEvaluator> = {
+  xml: (responseText, grader) => evaluateXmlGrader(responseText, grader),
+  json: (responseText, grader) => evaluateJsonGrader(responseText, grader),
+  text: (responseText, grader) => evaluateTextGrader(responseText, grader),
+  number: (responseText, grader) => evaluateNumberGrader(responseText, grader),
+  unit: (responseText, grader) => evaluateUnitGrader(responseText, grader),
+  unit_test: (responseText, grader) => evaluateUnitTestGrader(responseText, grader),
+  bash: (responseText, grader, graderIndex, options) => {
+    if (!options.bashExecutor) {
+      throw new Error(`Grader "${grader.name}" is a bash grader and can only be run server-side`)
+    }
+    return options.bashExecutor(responseText, grader, graderIndex)
+  },
+}
+
+/**
+ * Dispatches to the evaluator for the grader's type. Only bash graders are asynchronous.
+ */
+function runGrader(
+  responseText: string,
+  grader: GraderConfig,
+  graderIndex: number,
+  options: EvaluateOptions
+): GraderResult | Promise<GraderResult> {
+  const evaluator = isGraderType(grader.type) ? GRADER_EVALUATORS[grader.type] : undefined
+  if (!evaluator) {
+    throw new Error(`Unknown grader type: ${grader.type}`)
+  }
+  // Evaluators run synchronously (bash only awaits its executor), so the session only
+  // ever belongs to this grader run
+  regexSession = new RegexSession()
+  try {
+    return evaluator(responseText, grader, graderIndex, options)
+  } finally {
+    regexSession = undefined
+  }
+}
+
+// Compiled patterns and the regex time budget for the grader currently running
+let regexSession: RegexSession | undefined
+
 /**
  * Evaluates XML-structured response
  */
 function evaluateXmlGrader(responseText: string, grader: GraderConfig): GraderResult {
   const structure = grader.config.structure || []
-  let score = 0
-  const maxScore = structure.reduce((sum, field) => sum + field.weight, 0)
   const details: Record<string, unknown> = {}
 
-  // Parse XML-like structure from response
-  const parsedData = parseXmlLikeResponse(responseText)
+  const document = parseResponseXml(responseText, details)
 
-  for (const field of structure) {
-    const value = parsedData[field.name]
-    const fieldPassed = evaluateField(value, field)
+  // On a parse error every field is scored as missing, so maxScore stays meaningful
+  const answers: Record<string, unknown> = {}
+  const structureScores = scoreXmlStructure(structure, document, '', details, answers)
+  const ruleScores = scoreRules(grader.config.rules, answers, details)
 
-    details[field.name] = {
-      expected: field.comparator.config.expected,
-      actual: value,
-      passed: fieldPassed,
-      weight: field.weight,
-    }
+  return structureGraderResult(grader, details, {
+    ...structureScores,
+    score: structureScores.score + ruleScores.score,
+    maxScore: structureScores.maxScore + ruleScores.maxScore,
+  })
+}
 
-    if (fieldPassed) {
-      score += field.weight
+/**
+ * Parses a response for the XML-based graders. Labelers' answers are often not quite
+ * well-formed (an unclosed <br>, a stray closing tag), so when strict parsing fails the
+ * response is read leniently and the problem is noted in the details.
+ */
+function parseResponseXml(responseText: string, details: Record<string, unknown>): XmlElement | undefined {
+  try {
+    return parseXml(responseText)
+  } catch (error) {
+    if (!(error instanceof XmlParseError)) {
+      details.error = `Invalid XML: ${error instanceof Error ? error.message : 'parse failed'}`
+      return undefined
     }
+    details.warning = `Malformed XML, read leniently: ${error.message}`
+    return parseXml(responseText, { lenient: true })
   }
+}
+
+interface StructureScores {
+  score: number
+  maxScore: number
+  penalty: number
+  abstained: number
+}
+
+/**
+ * Applies the score floor and the grader's weight to structure points
+ */
+function structureGraderResult(
+  grader: GraderConfig,
+  details: Record<string, unknown>,
+  points: StructureScores
+): GraderResult {
+  const floored = { score: Math.max(points.score, grader.config.score_floor ?? 0), maxScore: points.maxScore }
+  const { score, maxScore } = scaleByGraderWeight(floored, grader)
+  const weight = grader.weight ?? 1
 
   return {
     graderName: grader.name,
     score,
     maxScore,
-    passed: score === maxScore,
+    passed: points.score === points.maxScore,
     details,
+    ...(points.penalty > 0 ? { penalty: points.penalty * weight } : {}),
+    ...(points.abstained > 0 ? { abstained: points.abstained } : {}),
   }
 }
 
+/**
+ * Evaluates one structure field. It earns weight × credit; a wrong answer (no credit)
+ * also loses the field's penalty. Abstaining, where allowed, and leaving the field out
+ * earn nothing and lose nothing.
+ */
+function scoreStructureField(
+  value: unknown,
+  field: GraderStructureField
+): { evaluation: FieldEvaluation; points: number; penalty: number; abstained: boolean } {
+  const abstained = !!field.allow_abstain && typeof value === 'string' && value.trim() === ABSTAIN_ANSWER
+  if (abstained) {
+    return { evaluation: { passed: false, credit: 0, details: { abstained: true } }, points: 0, penalty: 0, abstained }
+  }
+
+  const evaluation = evaluateField(value, field)
+  const credit = creditOf(evaluation)
+  const answered = value !== undefined && value !== null && String(value).trim() !== ''
+  const penalty = answered && credit === 0 ? field.penalty ?? 0 : 0
+  const details = penalty > 0 ? { ...evaluation.details, penalty } : evaluation.details
+
+  return { evaluation: { ...evaluation, details }, points: field.weight * credit - penalty, penalty, abstained }
+}
+
+/**
+ * Scores a grader's cross-field rules as extra items, keyed "rule:<id>" in the details.
+ * Rules over missing or non-numeric answers fail.
+ */
+function scoreRules(
+  rules: GraderRule[] | undefined,
+  answers: Record<string, unknown>,
+  details: Record<string, unknown>
+): { score: number; maxScore: number } {
+  let score = 0
+  let maxScore = 0
+
+  for (const rule of rules ?? []) {
+    const check = checkRule(rule, answers)
+    details[`rule:${rule.id}`] = {
+      comparator: 'rule',
+      expected: rule.formula,
+      actual: check.left !== undefined ? `${check.left} vs ${check.right}` : undefined,
+      passed: check.passed,
+      weight: rule.weight,
+      ...(rule.name ? { ruleName: rule.name } : {}),
+      ...(check.difference !== undefined ? { difference: check.difference } : {}),
+      ...(check.missingFields ? { reason: `missing values: ${check.missingFields.join(', ')}` } : {}),
+      ...(check.error ? { error: check.error } : {}),
+    }
+
+    maxScore += rule.weight
+    if (check.passed) score += rule.weight
+  }
+
+  return { score, maxScore }
+}
+
+/**
+ * Structure graders score in field-weight points; the grader's own weight multiplies them
+ */
+function scaleByGraderWeight(
+  fieldScores: { score: number; maxScore: number },
+  grader: GraderConfig
+): { score: number; maxScore: number } {
+  const weight = grader.weight ?? 1
+  return {
+    score: fieldScores.score * weight,
+    maxScore: fieldScores.maxScore * weight,
+  }
+}
+
+/**
+ * Scores structure items against the children of a parent element, recursing into
+ * nested items. Each item is resolved relative to its own parent, and details are
+ * keyed by the item's full path so same-named tags under different parents stay apart.
+ */
+function scoreXmlStructure(
+  structure: GraderStructureField[],
+  parent: XmlElement | undefined,
+  parentPath: string,
+  details: Record<string, unknown>,
+  answers: Record<string, unknown>
+): StructureScores {
+  let score = 0
+  let maxScore = 0
+  let penalty = 0
+  let abstained = 0
+
+  for (const field of structure) {
+    const path = structurePath(parentPath, field)
+    const children = field.children ?? []
+    const element = parent && !field.name.startsWith('@') ? findElement(parent, field.name) : undefined
+    const value = parent
+      ? field.type === 'list' ? resolveList(parent, field.name) : resolveValue(parent, field.name)
+      : undefined
+    answers[path] = value
+
+    // Containers without a comparator only group their children
+    if (field.comparator || children.length === 0) {
+      const scored = scoreStructureField(value, field)
+      const evaluation = scored.evaluation
+
+      details[path] = {
+        comparator: field.comparator?.type ?? 'present',
+        expected: field.comparator?.config.expected,
+        actual: value,
+        passed: evaluation.passed,
+        weight: field.weight,
+        ...(element && Object.keys(element.attributes).length > 0 ? { attributes: element.attributes } : {}),
+        ...evaluation.details,
+      }
+
+      maxScore += field.weight
+      score += scored.points
+      penalty += scored.penalty
+      if (scored.abstained) abstained += 1
+    }
+
+    if (children.length > 0) {
+      const childScores = scoreXmlStructure(children, element, path, details, answers)
+      score += childScores.score
+      maxScore += childScores.maxScore
+      penalty += childScores.penalty
+      abstained += childScores.abstained
+    }
+  }
+
+  return { score, maxScore, penalty, abstained }
+}
+
 /**
  * Evaluates JSON-structured response
  */
 function evaluateJsonGrader(responseText: string, grader: GraderConfig): GraderResult {
   const structure = grader.config.structure || []
-  let score = 0
-  const maxScore = structure.reduce((sum, field) => sum + field.weight, 0)
   const details: Record<string, unknown> = {}
 
+  let parsedData: unknown
   try {
-    const parsedData = JSON.parse(responseText)
+    parsedData = JSON.parse(responseText)
+  } catch {
+    details.error = 'Invalid JSON format'
+  }
+
+  // Top-level keys stay available to rules; on a parse error every field is scored as missing
+  const answers: Record<string, unknown> = typeof parsedData === 'object' && parsedData !== null
+    ? { ...(parsedData as Record<string, unknown>) }
+    : {}
+  const structureScores = scoreJsonStructure(structure, parsedData, '', details, answers)
+  const ruleScores = scoreRules(grader.config.rules, answers, details)
+
+  return structureGraderResult(grader, details, {
+    ...structureScores,
+    score: structureScores.score + ruleScores.score,
+    maxScore: structureScores.maxScore + ruleScores.maxScore,
+  })
+}
+
+/**
+ * Scores structure items against the keys of a parsed JSON object, recursing into
+ * nested items like scoreXmlStructure. Details and answers are keyed by path.
+ */
+function scoreJsonStructure(
+  structure: GraderStructureField[],
+  parent: unknown,
+  parentPath: string,
+  details: Record<string, unknown>,
+  answers: Record<string, unknown>
+): StructureScores {
+  let score = 0
+  let maxScore = 0
+  let penalty = 0
+  let abstained = 0
 
-    for (const field of structure) {
-      const value = parsedData[field.name]
-      const fieldPassed = evaluateField(value, field)
+  for (const field of structure) {
+    const path = structurePath(parentPath, field)
+    const children = field.children ?? []
+    const value = typeof parent === 'object' && parent !== null && !Array.isArray(parent)
+      ? (parent as Record<string, unknown>)[field.name]
+      : undefined
+    answers[path] = value
 
-      details[field.name] = {
-        expected: field.comparator.config.expected,
+    // Containers without a comparator only group their children
+    if (field.comparator || children.length === 0) {
+      const scored = scoreStructureField(value, field)
+      const evaluation = scored.evaluation
+
+      details[path] = {
+        comparator: field.comparator?.type ?? 'present',
+        expected: field.comparator?.config.expected,
         actual: value,
-        passed: fieldPassed,
+        passed: evaluation.passed,
         weight: field.weight,
+        ...evaluation.details,
       }
 
-      if (fieldPassed) {
-        score += field.weight
-      }
+      maxScore += field.weight
+      score += scored.points
+      penalty += scored.penalty
+      if (scored.abstained) abstained += 1
     }
-  } catch (error) {
-    details.error = 'Invalid JSON format'
-  }
 
-  return {
-    graderName: grader.name,
-    score,
-    maxScore,
-    passed: score === maxScore,
-    details,
+    if (children.length > 0) {
+      const childScores = scoreJsonStructure(children, value, path, details, answers)
+      score += childScores.score
+      maxScore += childScores.maxScore
+      penalty += childScores.penalty
+      abstained += childScores.abstained
+    }
   }
+
+  return { score, maxScore, penalty, abstained }
 }
 
 /**
@@ -149,16 +512,17 @@ function evaluateJsonGrader(responseText: string, grader: GraderConfig): GraderR
  */
 function evaluateTextGrader(responseText: string, grader: GraderConfig): GraderResult {
   const expected = grader.config.expected as string
-  const passed = responseText.trim() === expected?.trim()
+  const match = matchText(responseText, String(expected ?? ''), grader.config.normalize, grader.config.fuzzy_threshold)
 
   return {
     graderName: grader.name,
-    score: passed ? grader.weight : 0,
+    score: match.passed ? grader.weight : 0,
     maxScore: grader.weight,
-    passed,
+    passed: match.passed,
     details: {
       expected,
       actual: responseText,
+      ...match.details,
     },
   }
 }
@@ -167,9 +531,11 @@ function evaluateTextGrader(responseText: string, grader: GraderConfig): GraderR
  * Evaluates numeric response
  */
 function evaluateNumberGrader(responseText: string, grader: GraderConfig): GraderResult {
-  const value = parseFloat(responseText.trim())
+  // Answers like "1/4" or "25%" are evaluated; anything else falls back to the leading number
+  const text = delocalizeNumber(responseText, grader.config.normalize?.number_locale)
+  const value = tryEvaluateExpression(text) ?? parseFloat(text)
   const expected = grader.config.expected as number
-  const passed = !isNaN(value) && value === expected
+  const passed = !isNaN(value) && numbersMatch(value, expected, 0)
 
   return {
     graderName: grader.name,
@@ -183,6 +549,21 @@ function evaluateNumberGrader(responseText: string, grader: GraderConfig): Grade
   }
 }
 
+// Relative slack for floating-point noise in evaluated answers (0.1 * 3 vs 0.3)
+const EXPRESSION_EPSILON = 1e-9
+
+function tryEvaluateExpression(text: string): number | null {
+  try {
+    return evaluateExpression(text)
+  } catch {
+    return null
+  }
+}
+
+function numbersMatch(actual: number, expected: number, allowedDifference: number): boolean {
+  return Math.abs(actual - expected) <= allowedDifference + EXPRESSION_EPSILON * Math.max(1, Math.abs(expected))
+}
+
 /**
  * Evaluates unit test grader (uses test_cases instead of structure)
  */
@@ -191,30 +572,82 @@ function evaluateUnitTestGrader(responseText: string, grader: GraderConfig): Gra
   const maxScore = grader.weight
   const details: Record<string, unknown> = {}
 
-  // Parse XML-like structure from response
-  const parsedData = parseXmlLikeResponse(responseText)
+  const document = parseResponseXml(responseText, details)
 
   // Calculate weight per test case
   const weightPerTestCase = testCases.length > 0 ? maxScore / testCases.length : 0
   let score = 0
 
   for (const testCase of testCases) {
-    const value = parsedData[testCase.id]
+    const value = document ? resolveValue(document, testCase.id) : undefined
     const expectedValue = testCase.expected_value
 
     // Simple equality check (convert both to strings for comparison)
-    const fieldPassed = String(value).trim() === String(expectedValue).trim()
+    const matchesExpected = (expected: unknown): FieldEvaluation => ({
+      passed: String(value).trim() === String(expected).trim(),
+      details: {},
+    })
+    const evaluation = withAlternatives(matchesExpected(expectedValue), testCase.alternatives, alternative =>
+      alternative.comparator
+        ? evaluateField(value, { id: testCase.id, name: testCase.id, type: 'string', weight: 1, comparator: alternative.comparator })
+        : matchesExpected(alternative.expected))
 
     details[testCase.id] = {
       expected: expectedValue,
       actual: value,
-      passed: fieldPassed,
+      passed: evaluation.passed,
       weight: weightPerTestCase,
+      ...evaluation.details,
     }
 
-    if (fieldPassed) {
-      score += weightPerTestCase
+    score += weightPerTestCase * creditOf(evaluation)
+  }
+
+  return {
+    graderName: grader.name,
+    score,
+    maxScore,
+    passed: score === maxScore,
+    details,
+  }
+}
+
+// Relative slack so conversions like 5 km -> 5000 m survive floating point error
+const UNIT_CONVERSION_EPSILON = 1e-9
+
+/**
+ * Evaluates unit grader: each test case answer is parsed as a quantity ("5 km", "$1.2M",
+ * "12.5%"), converted to the base unit of its dimension and compared with tolerance.
+ */
+function evaluateUnitGrader(responseText: string, grader: GraderConfig): GraderResult {
+  const testCases = grader.config.test_cases || []
+  const maxScore = grader.weight
+  const details: Record<string, unknown> = {}
+  const numberLocale = grader.config.normalize?.number_locale
+
+  const document = parseResponseXml(responseText, details)
+
+  const weightPerTestCase = testCases.length > 0 ? maxScore / testCases.length : 0
+  let score = 0
+
+  for (const testCase of testCases) {
+    const value = document ? resolveValue(document, testCase.id) : undefined
+    // Alternatives are other quantities, compared with the test case's tolerance
+    const evaluation = withAlternatives(
+      compareQuantities(value, testCase, grader.config, numberLocale),
+      testCase.alternatives,
+      alternative => compareQuantities(value, { ...testCase, expected_value: alternative.expected }, grader.config, numberLocale)
+    )
+
+    details[testCase.id] = {
+      expected: testCase.expected_value,
+      actual: value,
+      passed: evaluation.passed,
+      weight: weightPerTestCase,
+      ...evaluation.details,
     }
+
+    score += weightPerTestCase * creditOf(evaluation)
   }
 
   return {
@@ -226,86 +659,508 @@ function evaluateUnitTestGrader(responseText: string, grader: GraderConfig): Gra
   }
 }
 
+function compareQuantities(
+  value: string | undefined,
+  testCase: NonNullable<GraderConfig['config']['test_cases']>[number],
+  config: GraderConfig['config'],
+  numberLocale: string | undefined
+): FieldEvaluation {
+  if (value === undefined) {
+    return { passed: false, details: { reason: 'missing value' } }
+  }
+
+  // Expected values are written in the task JSON, so they are never localized
+  const expected = parseQuantity(String(testCase.expected_value ?? ''))
+  if (!expected) {
+    return { passed: false, details: { reason: 'expected value is not a quantity' } }
+  }
+  const actual = parseQuantity(value, numberLocale)
+  if (!actual) {
+    return { passed: false, details: { reason: 'not a number with a known unit' } }
+  }
+
+  if (actual.dimension !== expected.dimension) {
+    return {
+      passed: false,
+      details: { reason: `incompatible units: ${actual.dimension} vs ${expected.dimension}` },
+    }
+  }
+  if (actual.currency && expected.currency && actual.currency !== expected.currency) {
+    return {
+      passed: false,
+      details: { reason: `currency mismatch: ${actual.currency} vs ${expected.currency}` },
+    }
+  }
+
+  // Absolute tolerance is stated in the expected value's unit; percentage is relative to it
+  const tolerance = testCase.tolerance ?? config.tolerance ?? 0
+  const toleranceType = testCase.tolerance_type ?? config.tolerance_type ?? 'absolute'
+  const allowedDifference = toleranceType === 'percentage'
+    ? Math.abs(expected.baseValue) * (tolerance / 100)
+    : tolerance * expected.factor
+  const difference = Math.abs(actual.baseValue - expected.baseValue)
+  const epsilon = Math.abs(expected.baseValue) * UNIT_CONVERSION_EPSILON
+
+  return {
+    passed: difference <= allowedDifference + epsilon,
+    details: {
+      dimension: expected.dimension,
+      expectedBase: expected.baseValue,
+      actualBase: actual.baseValue,
+      difference,
+      allowedDifference,
+      toleranceType,
+    },
+  }
+}
+
 /**
- * Evaluates a single field against its comparator
+ * Result of evaluating a single field, with comparator-specific details
  */
-function evaluateField(value: unknown, field: GraderStructureField): boolean {
-  const { comparator } = field
+interface FieldEvaluation {
+  passed: boolean
+  credit?: number // Share of the field weight earned; passed ? 1 : 0 when omitted
+  details: Record<string, unknown>
+}
+
+function creditOf(evaluation: FieldEvaluation): number {
+  return evaluation.credit ?? (evaluation.passed ? 1 : 0)
+}
+
+/**
+ * Falls back to a field's or test case's alternative answers when the primary check fails.
+ * The passing alternative with the most credit wins (the first one on ties) as long as it
+ * beats any partial credit the primary check earned, and details record which alternative
+ * matched. Partial credit counts toward the score but the field only passes on full credit.
+ */
+function withAlternatives(
+  primary: FieldEvaluation,
+  alternatives: AlternativeAnswer[] | undefined,
+  evaluate: (alternative: AlternativeAnswer) => FieldEvaluation
+): FieldEvaluation {
+  if (primary.passed || !alternatives || alternatives.length === 0) {
+    return primary
+  }
+
+  let best: { index: number; credit: number; evaluation: FieldEvaluation } | undefined
+  alternatives.forEach((alternative, index) => {
+    const evaluation = evaluate(alternative)
+    const credit = alternative.credit ?? 1
+    if (evaluation.passed && credit > (best?.credit ?? creditOf(primary))) {
+      best = { index, credit, evaluation }
+    }
+  })
+
+  if (!best) {
+    return primary
+  }
+
+  const matched = alternatives[best.index]
+  return {
+    passed: best.credit >= 1,
+    credit: best.credit,
+    details: {
+      ...best.evaluation.details,
+      matchedAlternative: best.index,
+      ...(matched.label ? { matchedLabel: matched.label } : {}),
+      ...(matched.expected !== undefined ? { matchedExpected: matched.expected } : {}),
+      credit: best.credit,
+    },
+  }
+}
 
-  // Type conversion
-  let typedValue: string | number | boolean
-  switch (field.type) {
+/**
+ * Compares two strings after normalization, falling back to fuzzy similarity when a
+ * threshold is set. Details are only reported for the options actually in use.
+ */
+function matchText(
+  actual: string,
+  expected: string,
+  normalize: NormalizationConfig | undefined,
+  fuzzyThreshold: number | undefined
+): FieldEvaluation {
+  const normalizedActual = normalizeText(actual, normalize)
+  const normalizedExpected = normalizeText(expected, normalize)
+
+  if (normalizedActual === normalizedExpected) {
+    return { passed: true, details: fuzzyThreshold !== undefined ? { similarity: 1 } : {} }
+  }
+  if (fuzzyThreshold === undefined) {
+    return { passed: false, details: {} }
+  }
+
+  const score = similarity(normalizedActual, normalizedExpected)
+  return { passed: score >= fuzzyThreshold, details: { similarity: score, fuzzyThreshold } }
+}
+
+type TypedValue = string | number | boolean | Array<string | number>
+
+/**
+ * Converts a raw response value to the field's declared type.
+ * Numbers are read in normalize.number_locale when one is set.
+ */
+function coerceValue(
+  value: unknown,
+  fieldType: GraderStructureField['type'],
+  normalize?: NormalizationConfig,
+  itemType: ListItemType = 'string'
+): TypedValue {
+  switch (fieldType) {
+    case 'list':
+      return listEntries(value).map(entry => coerceValue(entry, itemType, normalize) as string | number)
     case 'int':
-      typedValue = parseInt(String(value), 10)
-      break
+      return parseInt(delocalizeNumber(String(value), normalize?.number_locale), 10)
     case 'float':
-      typedValue = parseFloat(String(value))
-      break
-    case 'boolean':
-      typedValue = String(value).toLowerCase() === 'true'
-      break
+      return parseFloat(delocalizeNumber(String(value), normalize?.number_locale))
+    case 'bool':
+      return String(value).toLowerCase() === 'true'
     default:
-      typedValue = String(value)
+      return String(value)
   }
+}
 
-  // Compare based on comparator type
-  switch (comparator.type) {
-    case 'equals':
-      return typedValue === comparator.config.expected
+/**
+ * Splits a list answer into its non-blank entries. Arrays (JSON responses, XML child
+ * elements) are used as given; text is split one entry per line, or on commas and
+ * semicolons when it is a single line.
+ */
+function listEntries(value: unknown): string[] {
+  const entries = Array.isArray(value)
+    ? value.map(String)
+    : String(value).split(/\r?\n/).length > 1
+      ? String(value).split(/\r?\n/)
+      : String(value).split(/[,;]/)
+  return entries.map(entry => entry.trim()).filter(entry => entry !== '')
+}
 
-    case 'contains':
-      return String(typedValue).includes(String(comparator.config.expected))
+/**
+ * Evaluates a single field against its comparator, then its alternative answers
+ */
+function evaluateField(value: unknown, field: GraderStructureField): FieldEvaluation {
+  return withAlternatives(evaluateComparator(value, field, field.comparator), field.alternatives, alternative =>
+    evaluateComparator(value, field, alternativeComparator(alternative, field.comparator)))
+}
+
+/**
+ * An alternative without its own comparator reuses the field's comparator with its
+ * own expected value (plain equality when the field has no comparator)
+ */
+function alternativeComparator(alternative: AlternativeAnswer, base: ComparatorConfig | undefined): ComparatorConfig {
+  if (alternative.comparator) return alternative.comparator
+  // substring/pattern are aliases that take precedence over expected, so clear them
+  return base
+    ? { type: base.type, config: { ...base.config, substring: undefined, pattern: undefined, expected: alternative.expected } }
+    : { type: 'equals', config: { expected: alternative.expected } }
+}
+
+function evaluateComparator(
+  value: unknown,
+  field: GraderStructureField,
+  comparator: ComparatorConfig | undefined
+): FieldEvaluation {
+  // A missing value never matches, regardless of comparator
+  if (value === undefined || value === null) {
+    return { passed: false, details: { reason: 'missing value' } }
+  }
+
+  // Items without a comparator only need to be present
+  if (!comparator) {
+    return { passed: true, details: {} }
+  }
 
-    case 'range':
-      if (typeof typedValue === 'number') {
-        const min = comparator.config.min ?? -Infinity
-        const max = comparator.config.max ?? Infinity
-        return typedValue >= min && typedValue <= max
+  if (field.type === 'date') {
+    return evaluateDateComparator(value, comparator)
+  }
+
+  const compare = COMPARATORS[comparator.type]
+  if (!compare) {
+    return { passed: false, details: { reason: `unsupported comparator: ${comparator.type}` } }
+  }
+
+  return compare(
+    coerceValue(value, field.type, comparator.config.normalize, field.item_type),
+    value,
+    field,
+    comparator.config
+  )
+}
+
+type Comparator = (
+  typedValue: TypedValue,
+  rawValue: unknown,
+  field: GraderStructureField,
+  config: ComparatorConfig['config']
+) => FieldEvaluation
+
+/**
+ * Implementation of every comparator type in the shared schema
+ */
+const COMPARATORS: Record<ComparatorType, Comparator> = {
+  equals: (typedValue, _rawValue, field, config) => {
+    // Lists are equal when they hold the same entries in the same order
+    if (Array.isArray(typedValue)) {
+      const actual = typedValue.map(item => listKey(item, config))
+      const expected = expectedListKeys(field, config)
+      return {
+        passed: actual.length === expected.length && actual.every((item, index) => item === expected[index]),
+        details: {},
       }
-      return false
+    }
+    if (typeof typedValue === 'string' && typeof config.expected === 'string') {
+      return matchText(typedValue, config.expected, config.normalize, config.fuzzy_threshold)
+    }
+    return { passed: typedValue === config.expected, details: {} }
+  },
+
+  tolerance: (typedValue, _rawValue, _field, config) => {
+    const expected = Number(config.expected)
+    const tolerance = Number(config.tolerance ?? 0)
+    const actual = typeof typedValue === 'number' ? typedValue : parseFloat(String(typedValue))
+    if (isNaN(actual) || isNaN(expected) || isNaN(tolerance)) {
+      return { passed: false, details: { reason: 'not a number' } }
+    }
+
+    // Percentage tolerance is relative to the expected value
+    const allowedDifference = config.type === 'percentage'
+      ? Math.abs(expected) * (tolerance / 100)
+      : tolerance
+    const difference = Math.abs(actual - expected)
+
+    return {
+      passed: difference <= allowedDifference,
+      details: { difference, allowedDifference, toleranceType: config.type ?? 'absolute' },
+    }
+  },
+
+  contains: (typedValue, _rawValue, _field, config) => {
+    const needle = String(config.substring ?? config.expected ?? '')
+    const caseSensitive = config.case_sensitive ?? true
+    // case_sensitive: false is shorthand for the case_fold normalization step
+    const normalize = { ...config.normalize, case_fold: config.normalize?.case_fold || !caseSensitive }
+    const passed = normalizeText(String(typedValue), normalize).includes(normalizeText(needle, normalize))
+
+    return { passed, details: { substring: needle, caseSensitive } }
+  },
+
+  range: (typedValue, _rawValue, _field, config) => {
+    if (typeof typedValue !== 'number' || isNaN(typedValue)) {
+      return { passed: false, details: { reason: 'not a number' } }
+    }
+    const min = typeof config.min === 'number' ? config.min : -Infinity
+    const max = typeof config.max === 'number' ? config.max : Infinity
+    return { passed: typedValue >= min && typedValue <= max, details: { min, max } }
+  },
+
+  regex: (typedValue, _rawValue, _field, config) => {
+    const pattern = config.pattern ?? config.expected
+    if (typeof pattern !== 'string') {
+      return { passed: false, details: { reason: 'no pattern' } }
+    }
+    const outcome = (regexSession ?? new RegexSession()).test(pattern, config.flags, String(typedValue))
+    if ('error' in outcome) {
+      return { passed: false, details: { pattern, reason: outcome.error } }
+    }
+    return { passed: outcome.matched, details: { pattern, ...(config.flags ? { flags: config.flags } : {}) } }
+  },
+
+  in_list: (typedValue, _rawValue, field, config) => {
+    const allowedValues = config.allowed_values ?? []
+    // Allowed values are coerced to the field type so "15" matches 15 for numeric fields.
+    // They are written in JSON, so number_locale only applies to the response.
+    const candidates = allowedValues.map(allowed => coerceValue(allowed, field.type))
+
+    if (typeof typedValue === 'string') {
+      // Pick the closest allowed value so fuzzy matches report the best similarity
+      const matches = candidates.map(candidate =>
+        matchText(typedValue, String(candidate), config.normalize, config.fuzzy_threshold))
+      const best = matches.find(match => match.passed) ?? matches
+        .sort((a, b) => Number(b.details.similarity ?? 0) - Number(a.details.similarity ?? 0))[0]
+      return { passed: best?.passed ?? false, details: { allowedValues, ...best?.details } }
+    }
+
+    return { passed: candidates.some(candidate => candidate === typedValue), details: { allowedValues } }
+  },
+
+  length: (typedValue, rawValue, _field, config) => {
+    // Lists are measured in entries, everything else in characters
+    const length = Array.isArray(typedValue) ? typedValue.length : String(rawValue).trim().length
+    const min = config.min_length ?? (typeof config.min === 'number' ? config.min : undefined)
+    const max = config.max_length ?? (typeof config.max === 'number' ? config.max : undefined)
+    const exact = (config.exact_length ?? config.exact) as number | undefined
 
-    case 'regex':
-      if (comparator.config.pattern) {
-        const regex = new RegExp(comparator.config.pattern)
-        return regex.test(String(typedValue))
+    let passed = true
+    if (exact !== undefined) passed = passed && length === exact
+    if (min !== undefined) passed = passed && length >= min
+    if (max !== undefined) passed = passed && length <= max
+
+    return { passed, details: { length, min, max, exact } }
+  },
+
+  expression: (_typedValue, rawValue, _field, config) => {
+    const answer = delocalizeNumber(String(rawValue), config.normalize?.number_locale)
+    let actual: number
+    let expected: number
+    try {
+      actual = evaluateExpression(answer)
+    } catch (error) {
+      return { passed: false, details: { reason: error instanceof Error ? error.message : 'not an expression' } }
+    }
+    try {
+      expected = typeof config.expected === 'number' ? config.expected : evaluateExpression(String(config.expected))
+    } catch {
+      return { passed: false, details: { reason: 'expected is not an expression' } }
+    }
+
+    const stated = countSignificantFigures(answer)
+    const minFigures = config.min_significant_figures
+    if (minFigures !== undefined && stated !== null && stated < minFigures) {
+      return {
+        passed: false,
+        details: { value: actual, reason: `answer states ${stated} significant figures, needs ${minFigures}` },
       }
-      return false
+    }
 
-    default:
-      return false
+    const figures = config.significant_figures
+    const compared = figures !== undefined ? roundToSignificantFigures(actual, figures) : actual
+    const target = figures !== undefined ? roundToSignificantFigures(expected, figures) : expected
+    const tolerance = Number(config.tolerance ?? 0)
+    const allowedDifference = config.type === 'percentage' ? Math.abs(target) * (tolerance / 100) : tolerance
+
+    return {
+      passed: numbersMatch(compared, target, allowedDifference),
+      details: {
+        value: actual,
+        difference: Math.abs(compared - target),
+        allowedDifference,
+        ...(figures !== undefined ? { significantFigures: figures } : {}),
+      },
+    }
+  },
+  set_equals: (typedValue, _rawValue, field, config) => {
+    const sets = compareListSets(typedValue, field, config)
+    if (!sets) return { passed: false, details: { reason: 'not a list' } }
+    return {
+      passed: sets.missing.length === 0 && sets.extra.length === 0,
+      details: { missing: sets.missing, extra: sets.extra },
+    }
+  },
+
+  subset: (typedValue, _rawValue, field, config) => {
+    const sets = compareListSets(typedValue, field, config)
+    if (!sets) return { passed: false, details: { reason: 'not a list' } }
+    const minItems = config.min_items ?? 1
+    return {
+      passed: sets.extra.length === 0 && sets.matched >= minItems,
+      details: { extra: sets.extra, matched: sets.matched, minItems },
+    }
+  },
+
+  jaccard: (typedValue, _rawValue, field, config) => {
+    const sets = compareListSets(typedValue, field, config)
+    if (!sets) return { passed: false, details: { reason: 'not a list' } }
+    // Two empty lists are identical
+    const union = sets.matched + sets.missing.length + sets.extra.length
+    const jaccard = union === 0 ? 1 : sets.matched / union
+    const minScore = config.min_score ?? 0
+    return {
+      passed: jaccard === 1,
+      credit: jaccard >= minScore ? jaccard : 0,
+      details: { jaccard, minScore, missing: sets.missing, extra: sets.extra },
+    }
+  },
+}
+
+/**
+ * Comparison key of a list entry: numbers by value, text after normalization
+ */
+function listKey(item: string | number, config: ComparatorConfig['config']): string {
+  return typeof item === 'number' ? String(item) : normalizeText(item, config.normalize)
+}
+
+/**
+ * Keys of the expected entries, coerced to the field's item type. They are written in
+ * JSON, so number_locale only applies to the response.
+ */
+function expectedListKeys(field: GraderStructureField, config: ComparatorConfig['config']): string[] {
+  const expected = coerceValue(config.expected ?? [], 'list', undefined, field.item_type) as Array<string | number>
+  return expected.map(item => listKey(item, config))
+}
+
+/**
+ * Order-insensitive comparison of a list answer with the expected entries (duplicates
+ * count once). Returns null when the answer is not a list.
+ */
+function compareListSets(
+  typedValue: TypedValue,
+  field: GraderStructureField,
+  config: ComparatorConfig['config']
+): { matched: number; missing: string[]; extra: string[] } | null {
+  if (!Array.isArray(typedValue)) return null
+
+  const actual = new Set(typedValue.map(item => listKey(item, config)))
+  const expected = new Set(expectedListKeys(field, config))
+  return {
+    matched: [...actual].filter(item => expected.has(item)).length,
+    missing: [...expected].filter(item => !actual.has(item)),
+    extra: [...actual].filter(item => !expected.has(item)),
   }
 }
 
+type DateComparator = (actual: ParsedDate, config: ComparatorConfig['config']) => FieldEvaluation
+
 /**
- * Parses XML-like response (simple key-value extraction)
- * Example: <answer>15</answer> -> { answer: "15" }
- * Also handles one level of nesting: <root><answer>15</answer></root> -> { answer: "15" }
+ * Date fields are compared as calendar dates rather than text, so "2024-03-01" and
+ * "March 1, 2024" match. Only the comparators in DATE_FIELD_COMPARATORS apply.
  */
-function parseXmlLikeResponse(responseText: string): Record<string, string> {
-  const result: Record<string, string> = {}
+const DATE_COMPARATORS: Partial<Record<ComparatorType, DateComparator>> = {
+  equals: (actual, config) => {
+    const granularity = config.granularity ?? 'day'
+    const expected = parseDate(String(config.expected ?? ''), config.day_first)
+    if (!expected) return { passed: false, details: { reason: 'expected is not a date' } }
+    if (!isPreciseEnough(actual, granularity)) {
+      return { passed: false, details: { reason: `answer does not state the ${granularity}`, granularity } }
+    }
+    return { passed: dateKey(actual, granularity) === dateKey(expected, granularity), details: { granularity } }
+  },
 
-  // Match <key>value</key> patterns ([\s\S] matches any character including newlines)
-  const regex = /<(\w+)>([\s\S]*?)<\/\1>/g
-  let match
+  range: (actual, config) => {
+    const granularity = config.granularity ?? 'day'
+    const min = config.min !== undefined ? parseDate(String(config.min), config.day_first) : undefined
+    const max = config.max !== undefined ? parseDate(String(config.max), config.day_first) : undefined
+    if (min === null || max === null) return { passed: false, details: { reason: 'range bound is not a date' } }
+    if (!isPreciseEnough(actual, granularity)) {
+      return { passed: false, details: { reason: `answer does not state the ${granularity}`, granularity } }
+    }
 
-  while ((match = regex.exec(responseText)) !== null) {
-    const [, key, value] = match
-    const trimmedValue = value.trim()
+    const key = dateKey(actual, granularity)
+    const passed = (!min || key >= dateKey(min, granularity)) && (!max || key <= dateKey(max, granularity))
+    return { passed, details: { min: config.min, max: config.max, granularity } }
+  },
 
-    // Check if value contains nested XML tags
-    if (trimmedValue.includes('<')) {
-      // Parse nested tags recursively
-      const nestedRegex = /<(\w+)>([\s\S]*?)<\/\1>/g
-      let nestedMatch
-      while ((nestedMatch = nestedRegex.exec(trimmedValue)) !== null) {
-        const [, nestedKey, nestedValue] = nestedMatch
-        result[nestedKey] = nestedValue.trim()
-      }
-    } else {
-      // Simple value, store directly
-      result[key] = trimmedValue
+  tolerance: (actual, config) => {
+    const expected = parseDate(String(config.expected ?? ''), config.day_first)
+    if (!expected) return { passed: false, details: { reason: 'expected is not a date' } }
+    if (!isPreciseEnough(actual, 'day')) {
+      return { passed: false, details: { reason: 'answer does not state the day' } }
     }
+
+    const differenceDays = Math.abs(daysBetween(expected, actual))
+    const toleranceDays = Number(config.tolerance ?? 0)
+    return { passed: differenceDays <= toleranceDays, details: { differenceDays, toleranceDays } }
+  },
+}
+
+function evaluateDateComparator(value: unknown, comparator: ComparatorConfig): FieldEvaluation {
+  const compare = DATE_COMPARATORS[comparator.type]
+  if (!compare) {
+    return { passed: false, details: { reason: `comparator ${comparator.type} does not apply to dates` } }
   }
 
-  return result
+  const actual = parseDate(String(value), comparator.config.day_first)
+  if (!actual) {
+    return { passed: false, details: { reason: 'not a date' } }
+  }
+
+  const evaluation = compare(actual, comparator.config)
+  return { ...evaluation, details: { actualDate: formatDate(actual), ...evaluation.details } }
 }
@@ -0,0 +1,112 @@
+import type { GraderRule } from '@/types/database'
+import { ExpressionError, evaluateExpression, expressionNames } from '@/lib/expressions'
+
+export const RULE_OPERATORS = ['<=', '>=', '!=', '==', '=', '<', '>'] as const
+export type RuleOperator = (typeof RULE_OPERATORS)[number]
+
+export interface ParsedRule {
+  left: string
+  operator: RuleOperator
+  right: string
+  fields: string[] // Field paths referenced on either side
+}
+
+export interface RuleCheck {
+  passed: boolean
+  left?: number
+  right?: number
+  difference?: number
+  missingFields?: string[] // Referenced fields that are unanswered or not numbers
+  error?: string // The formula itself is invalid
+}
+
+/**
+ * Splits a rule formula into its two sides around the comparison operator.
+ * Throws an Error describing the problem when the formula is malformed.
+ */
+export function parseRule(formula: string): ParsedRule {
+  const match = formula.match(/^([^<>=!]*)(<=|>=|!=|==|=|<|>)([^<>=!]*)$/)
+  if (!match || match[1].trim() === '' || match[3].trim() === '') {
+    throw new Error('Formula must be two expressions joined by one of: ' + RULE_OPERATORS.join(' '))
+  }
+
+  const [, left, operator, right] = match
+  const fields = [...new Set([...expressionNames(left), ...expressionNames(right)])]
+
+  // Evaluate both sides once with placeholder values to surface syntax errors now
+  const placeholders = Object.fromEntries(fields.map((field, index) => [field, index + 1.5]))
+  for (const side of [left, right]) {
+    try {
+      evaluateExpression(side, placeholders)
+    } catch (error) {
+      if (!(error instanceof ExpressionError) || !error.arithmetic) throw error
+    }
+  }
+
+  return { left: left.trim(), operator: operator as RuleOperator, right: right.trim(), fields }
+}
+
+/**
+ * Checks a rule against answers keyed by field path. Answers may be numbers or text such
+ * as "1/4", "25%", "1,200" or "$1,200".
+ */
+export function checkRule(rule: GraderRule, answers: Record<string, unknown>): RuleCheck {
+  let parsed: ParsedRule
+  try {
+    parsed = parseRule(rule.formula)
+  } catch (error) {
+    return { passed: false, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const values: Record<string, number> = {}
+  const missingFields: string[] = []
+  for (const field of parsed.fields) {
+    const value = answerValue(answers[field])
+    if (value === null) missingFields.push(field)
+    else values[field] = value
+  }
+  if (missingFields.length > 0) {
+    return { passed: false, missingFields }
+  }
+
+  let left: number
+  let right: number
+  try {
+    left = evaluateExpression(parsed.left, values)
+    right = evaluateExpression(parsed.right, values)
+  } catch (error) {
+    return { passed: false, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const tolerance = rule.tolerance ?? 0
+  const allowed = rule.tolerance_type === 'percentage' ? Math.abs(right) * (tolerance / 100) : tolerance
+  // Slack for floating-point noise in sums like 0.1 + 0.2
+  const slack = allowed + 1e-9 * Math.max(1, Math.abs(right))
+  const difference = left - right
+
+  const passed = {
+    '=': Math.abs(difference) <= slack,
+    '==': Math.abs(difference) <= slack,
+    '!=': Math.abs(difference) > slack,
+    '<': difference < allowed,
+    '<=': difference <= slack,
+    '>': difference > -allowed,
+    '>=': difference >= -slack,
+  }[parsed.operator]
+
+  return { passed, left, right, difference }
+}
+
+function answerValue(answer: unknown): number | null {
+  if (typeof answer === 'number') return Number.isFinite(answer) ? answer : null
+  if (typeof answer !== 'string' || answer.trim() === '') return null
+
+  // Amounts are often written with a currency symbol and thousands separators
+  let text = answer.trim().replace(/^[$€£¥]\s*/, '')
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) text = text.replace(/,/g, '')
+  try {
+    return evaluateExpression(text)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Grader schema shared by the task types, the task validator and the grader.
+ *
+ * Every grader type, field type and comparator type is declared here once. The
+ * validator builds its accepted values from these lists and the grader's dispatch
+ * tables are keyed by the derived types, so adding a type here without teaching both
+ * sides about it is a compile error.
+ */
+
+export const GRADER_TYPES = ['xml', 'json', 'text', 'number', 'unit', 'unit_test', 'bash'] as const
+export type GraderType = (typeof GRADER_TYPES)[number]
+
+export const FIELD_TYPES = ['int', 'float', 'string', 'bool', 'list', 'date'] as const
+export type FieldType = (typeof FIELD_TYPES)[number]
+
+// Element type of a list field (its item_type), defaults to string
+export const LIST_ITEM_TYPES = ['int', 'float', 'string'] as const
+export type ListItemType = (typeof LIST_ITEM_TYPES)[number]
+
+export const COMPARATOR_TYPES = [
+  'equals',
+  'tolerance',
+  'range',
+  'contains',
+  'regex',
+  'in_list',
+  'length',
+  'set_equals',
+  'subset',
+  'jaccard',
+  'expression',
+] as const
+export type ComparatorType = (typeof COMPARATOR_TYPES)[number]
+
+// Comparators that only make sense on list fields, and every comparator a list field accepts
+// (equals compares in order, length counts items)
+export const LIST_COMPARATORS: readonly ComparatorType[] = ['set_equals', 'subset', 'jaccard']
+export const LIST_FIELD_COMPARATORS: readonly ComparatorType[] = [...LIST_COMPARATORS, 'equals', 'length']
+
+// Comparators a date field accepts: equals (at a granularity), range and tolerance in days
+export const DATE_FIELD_COMPARATORS: readonly ComparatorType[] = ['equals', 'range', 'tolerance']
+
+export const DATE_GRANULARITIES = ['day', 'month', 'year'] as const
+export type DateGranularity = (typeof DATE_GRANULARITIES)[number]
+
+// Flags a regex comparator may set. "g" and "y" make test() stateful, so they are left out.
+export const REGEX_FLAGS = ['i', 'm', 's', 'u'] as const
+
+// Answer a labeler gives to abstain on a field that sets allow_abstain
+export const ABSTAIN_ANSWER = '[unknown]'
+
+export const TOLERANCE_TYPES = ['absolute', 'percentage'] as const
+export type ToleranceType = (typeof TOLERANCE_TYPES)[number]
+
+/**
+ * String normalization steps a comparator or text grader can enable under `normalize`.
+ * Listed in the order they are applied.
+ */
+export const NORMALIZATION_STEPS = ['unicode_nfkc', 'case_fold', 'strip_punctuation', 'collapse_whitespace'] as const
+export type NormalizationStep = (typeof NORMALIZATION_STEPS)[number]
+
+// Comparators that read `normalize` (string steps and number_locale) and `fuzzy_threshold`
+export const NORMALIZING_COMPARATORS: readonly ComparatorType[] = [
+  'equals',
+  'contains',
+  'in_list',
+  'tolerance',
+  'range',
+  'expression',
+  ...LIST_COMPARATORS,
+]
+export const FUZZY_COMPARATORS: readonly ComparatorType[] = ['equals', 'in_list']
+
+export const SCORE_AGGREGATIONS = ['weighted_sum', 'weighted_mean', 'minimum', 'all_must_pass'] as const
+export type ScoreAggregation = (typeof SCORE_AGGREGATIONS)[number]
+
+/**
+ * What a grader type reads from its config:
+ * - structure: config.structure, a tree of typed fields with comparators
+ * - expected: config.expected, compared against the whole response
+ * - test_cases: config.test_cases, ids with expected values
+ * - script: config.script, run server-side
+ */
+export type GraderInput = 'structure' | 'expected' | 'test_cases' | 'script'
+
+export interface GraderTypeSpec {
+  input: GraderInput
+  expectedValueType?: 'string' | 'number' // For input 'expected'
+  responseFormat: 'xml' | 'json' | 'text' // How the labeler response is read
+}
+
+export const GRADER_TYPE_SPECS: Record<GraderType, GraderTypeSpec> = {
+  xml: { input: 'structure', responseFormat: 'xml' },
+  json: { input: 'structure', responseFormat: 'json' },
+  text: { input: 'expected', expectedValueType: 'string', responseFormat: 'text' },
+  number: { input: 'expected', expectedValueType: 'number', responseFormat: 'text' },
+  unit: { input: 'test_cases', responseFormat: 'xml' },
+  unit_test: { input: 'test_cases', responseFormat: 'xml' },
+  bash: { input: 'script', responseFormat: 'text' },
+}
+
+/**
+ * JavaScript type a field's expected values must have
+ */
+export const FIELD_VALUE_TYPES: Record<FieldType, 'number' | 'string' | 'boolean' | 'array'> = {
+  int: 'number',
+  float: 'number',
+  string: 'string',
+  bool: 'boolean',
+  list: 'array',
+  date: 'string', // Written as text, e.g. "2024-03-01"
+}
+
+export function isGraderType(value: unknown): value is GraderType {
+  return (GRADER_TYPES as readonly unknown[]).includes(value)
+}
+
+export function isFieldType(value: unknown): value is FieldType {
+  return (FIELD_TYPES as readonly unknown[]).includes(value)
+}
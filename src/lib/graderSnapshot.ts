@@ -0,0 +1,61 @@
+import type { GraderConfig, ScoreAggregation, Task } from '@/types/database'
+
+/**
+ * The grading setup a submission was scored with, stored on the submission so its
+ * score can be traced back (and flagged as stale) after the task's graders change.
+ */
+export interface GraderSnapshot {
+  graders: GraderConfig[]
+  score_aggregation: ScoreAggregation
+}
+
+// Editor-only state that does not affect grading
+const IGNORED_KEYS = new Set(['isExpanded'])
+
+export function buildGraderSnapshot(task: Pick<Task, 'graders' | 'score_aggregation'>): GraderSnapshot {
+  return {
+    graders: Array.isArray(task.graders) ? task.graders : [],
+    score_aggregation: task.score_aggregation ?? 'weighted_sum',
+  }
+}
+
+/**
+ * SHA-256 of the snapshot as canonical JSON (sorted keys), so the same config always
+ * hashes the same however its JSONB keys come back ordered. Runs in the browser and on
+ * the server through Web Crypto.
+ */
+export async function hashGraderSnapshot(snapshot: GraderSnapshot): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalJson(snapshot))
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function hashTaskGraders(task: Pick<Task, 'graders' | 'score_aggregation'>): Promise<string> {
+  return hashGraderSnapshot(buildGraderSnapshot(task))
+}
+
+/**
+ * Whether a submission was scored with a grader config other than the task's current one.
+ * Submissions graded before hashes were recorded have no hash and are never reported stale.
+ */
+export function isGradedWithStaleConfig(
+  submission: { grader_config_hash: string | null; grader_results: unknown },
+  currentHash: string | undefined
+): boolean {
+  return !!submission.grader_results && !!submission.grader_config_hash && !!currentHash &&
+    submission.grader_config_hash !== currentHash
+}
+
+// JSON with object keys sorted, so values compare equal however their keys are ordered
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([key, entry]) => entry !== undefined && !IGNORED_KEYS.has(key))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
@@ -0,0 +1,56 @@
+/**
+ * A JSON Patch (RFC 6902) operation. Only the operations the task validator's fixes
+ * need are supported.
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+
+/**
+ * Builds a JSON Pointer (RFC 6901) from path segments, e.g. ['tasks', 0, 'name'] -> "/tasks/0/name"
+ */
+export function toJsonPointer(segments: Array<string | number>): string {
+  return segments.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer "${pointer}"`)
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Applies patch operations to a copy of `document`; the original is left untouched.
+ * Throws when an operation's parent path does not exist.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  const result = structuredClone(document)
+
+  for (const operation of operations) {
+    const segments = parseJsonPointer(operation.path)
+    const key = segments.pop()
+    if (key === undefined) throw new Error('Cannot patch the document root')
+
+    let parent: unknown = result
+    for (const segment of segments) {
+      parent = parent !== null && typeof parent === 'object' ? (parent as Record<string, unknown>)[segment] : undefined
+    }
+    if (parent === null || typeof parent !== 'object') {
+      throw new Error(`Cannot apply "${operation.op}" at ${operation.path}: parent does not exist`)
+    }
+
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : Number(key)
+      if (operation.op === 'add') parent.splice(index, 0, structuredClone(operation.value))
+      else if (operation.op === 'replace') parent[index] = structuredClone(operation.value)
+      else parent.splice(index, 1)
+    } else {
+      const container = parent as Record<string, unknown>
+      if (operation.op === 'remove') delete container[key]
+      else container[key] = structuredClone(operation.value)
+    }
+  }
+
+  return result
+}
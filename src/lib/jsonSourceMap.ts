@@ -0,0 +1,161 @@
+import { toJsonPointer } from '@/lib/jsonPatch'
+
+export interface SourcePosition {
+  line: number // 1-based
+  column: number // 1-based
+  offset: number // 0-based character offset
+}
+
+/**
+ * Where each value of a JSON document starts in its text, by JSON Pointer.
+ * Object members also record where their key starts.
+ */
+export interface JsonSourceMap {
+  values: Map<string, SourcePosition>
+  keys: Map<string, SourcePosition>
+}
+
+// Sticky, so it matches at lastIndex without copying the rest of the text
+const LITERAL_PATTERN = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?/y
+
+export class JsonSyntaxError extends Error {
+  position: SourcePosition
+
+  constructor(message: string, position: SourcePosition) {
+    super(`${message} at line ${position.line}, column ${position.column}`)
+    this.name = 'JsonSyntaxError'
+    this.position = position
+  }
+}
+
+/**
+ * Scans JSON text and records the position of every value. Throws a JsonSyntaxError
+ * pointing at the first syntax error.
+ */
+export function buildJsonSourceMap(text: string): JsonSourceMap {
+  const map: JsonSourceMap = { values: new Map(), keys: new Map() }
+  const lineStarts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1)
+  }
+
+  const positionAt = (offset: number): SourcePosition => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (lineStarts[mid] <= offset) low = mid
+      else high = mid - 1
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset }
+  }
+
+  let index = 0
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, positionAt(index))
+  }
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) index++
+  }
+  const expect = (char: string) => {
+    if (text[index] !== char) fail(index >= text.length ? `Expected "${char}" but the text ended` : `Expected "${char}"`)
+    index++
+  }
+
+  const scanString = (): string => {
+    const start = index
+    expect('"')
+    while (index < text.length && text[index] !== '"') {
+      if (text[index] === '\n') fail('Unterminated string')
+      index += text[index] === '\\' ? 2 : 1
+    }
+    expect('"')
+    try {
+      return JSON.parse(text.slice(start, index))
+    } catch {
+      index = start
+      return fail('Invalid string')
+    }
+  }
+
+  const scanValue = (segments: Array<string | number>) => {
+    skipWhitespace()
+    map.values.set(toJsonPointer(segments), positionAt(index))
+    const char = text[index]
+
+    if (char === '{') {
+      index++
+      skipWhitespace()
+      if (text[index] === '}') {
+        index++
+        return
+      }
+      for (;;) {
+        skipWhitespace()
+        const keyPosition = positionAt(index)
+        if (text[index] !== '"') fail('Expected a property name')
+        const key = scanString()
+        map.keys.set(toJsonPointer([...segments, key]), keyPosition)
+        skipWhitespace()
+        expect(':')
+        scanValue([...segments, key])
+        skipWhitespace()
+        if (text[index] === ',') {
+          index++
+          continue
+        }
+        expect('}')
+        return
+      }
+    }
+
+    if (char === '[') {
+      index++
+      skipWhitespace()
+      if (text[index] === ']') {
+        index++
+        return
+      }
+      for (let item = 0; ; item++) {
+        scanValue([...segments, item])
+        skipWhitespace()
+        if (text[index] === ',') {
+          index++
+          continue
+        }
+        expect(']')
+        return
+      }
+    }
+
+    if (char === '"') {
+      scanString()
+      return
+    }
+
+    LITERAL_PATTERN.lastIndex = index
+    const literal = LITERAL_PATTERN.exec(text)
+    if (!literal) fail(index >= text.length ? 'Unexpected end of JSON' : 'Unexpected token')
+    index += literal![0].length
+  }
+
+  scanValue([])
+  skipWhitespace()
+  if (index < text.length) fail('Unexpected text after the JSON value')
+
+  return map
+}
+
+/**
+ * Position of a JSON Pointer in the text: the member's key when it has one, else its
+ * value. Pointers to missing members fall back to their nearest existing parent.
+ */
+export function locatePointer(map: JsonSourceMap, pointer: string): SourcePosition | null {
+  let current = pointer
+  for (;;) {
+    const position = map.keys.get(current) ?? map.values.get(current)
+    if (position) return position
+    if (current === '') return null
+    current = current.slice(0, current.lastIndexOf('/'))
+  }
+}
@@ -0,0 +1,90 @@
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed'
+  text: string
+  oldLine?: number // 1-based, for same and removed lines
+  newLine?: number // 1-based, for same and added lines
+}
+
+export interface DiffHunk {
+  lines: DiffLine[]
+}
+
+/**
+ * Line-by-line diff of two texts (Myers' algorithm), so small edits to large documents
+ * stay cheap: the work grows with the number of changed lines, not the file size.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n')
+  const b = newText.split('\n')
+  const max = a.length + b.length
+  const offset = max + 1
+  const frontier = new Array<number>(2 * max + 3).fill(0)
+  const trace: number[][] = []
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(frontier.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1])
+        ? frontier[offset + k + 1]
+        : frontier[offset + k - 1] + 1
+      let y = x - k
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++
+        y++
+      }
+      frontier[offset + k] = x
+      if (x >= a.length && y >= b.length) break outer
+    }
+  }
+
+  // Walk the trace back from the end to recover the edit script
+  const lines: DiffLine[] = []
+  let x = a.length
+  let y = b.length
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : previous[offset + prevK]
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      lines.push({ kind: 'same', text: a[x - 1], oldLine: x, newLine: y })
+      x--
+      y--
+    }
+    if (d === 0) break
+    if (x === prevX) {
+      lines.push({ kind: 'added', text: b[y - 1], newLine: y })
+    } else {
+      lines.push({ kind: 'removed', text: a[x - 1], oldLine: x })
+    }
+    x = prevX
+    y = prevY
+  }
+
+  return lines.reverse()
+}
+
+/**
+ * Groups a diff into hunks of changed lines with `context` unchanged lines around each
+ */
+export function diffHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const changed = lines.flatMap((line, index) => (line.kind === 'same' ? [] : [index]))
+  const hunks: DiffHunk[] = []
+
+  let start = -1
+  let end = -1
+  for (const index of changed) {
+    if (start !== -1 && index - context <= end + context + 1) {
+      end = index
+      continue
+    }
+    if (start !== -1) hunks.push({ lines: lines.slice(Math.max(0, start - context), end + context + 1) })
+    start = index
+    end = index
+  }
+  if (start !== -1) hunks.push({ lines: lines.slice(Math.max(0, start - context), end + context + 1) })
+
+  return hunks
+}
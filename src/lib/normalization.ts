@@ -0,0 +1,81 @@
+import type { NormalizationConfig } from '@/types/database'
+
+/**
+ * Applies the enabled normalization steps to a string, in schema order:
+ * Unicode NFKC, case folding, punctuation stripping, whitespace collapsing.
+ * The result is always trimmed, matching the graders' existing behaviour.
+ */
+export function normalizeText(value: string, options: NormalizationConfig = {}): string {
+  let text = value
+  if (options.unicode_nfkc) text = text.normalize('NFKC')
+  if (options.case_fold) text = text.toLowerCase()
+  if (options.strip_punctuation) text = text.replace(/\p{P}/gu, '')
+  if (options.collapse_whitespace) text = text.replace(/\s+/g, ' ')
+  return text.trim()
+}
+
+const separatorCache = new Map<string, { group: string; decimal: string }>()
+
+function localeSeparators(locale: string): { group: string; decimal: string } {
+  let separators = separatorCache.get(locale)
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6)
+    separators = {
+      group: parts.find(part => part.type === 'group')?.value ?? ',',
+      decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+    }
+    separatorCache.set(locale, separators)
+  }
+  return separators
+}
+
+/**
+ * Rewrites a number written in the given locale into the "1234.5" form parseFloat reads.
+ * Without a locale the text is returned trimmed and unchanged.
+ */
+export function delocalizeNumber(value: string, locale?: string): string {
+  const text = value.trim()
+  if (!locale) return text
+
+  const { group, decimal } = localeSeparators(locale)
+  // Locales that group with (narrow) no-break spaces are commonly typed with plain spaces
+  const groupPattern = /\s/.test(group) ? /\s/g : new RegExp(escapeRegExp(group), 'g')
+
+  return text.replace(groupPattern, '').replace(decimal, '.')
+}
+
+export function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Similarity between two strings from 0 (nothing shared) to 1 (identical),
+ * based on Levenshtein edit distance relative to the longer string.
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1
+  const longest = Math.max(a.length, b.length)
+  if (longest === 0) return 1
+  return 1 - editDistance(a, b) / longest
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
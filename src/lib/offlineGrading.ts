@@ -0,0 +1,250 @@
+import type { TaskDefinition } from '@/types/database'
+import { evaluateResponse, type BashGraderExecutor, type EvaluationResult } from '@/lib/grader'
+import { buildResponseText, type FormResponses } from '@/lib/submissionResponse'
+
+// Grades response files against exported tasks outside the app (see scripts/grade-responses.ts).
+// No file or process access here, so the module stays usable from any runtime.
+
+/**
+ * One line of a responses file: `{"task": "<task name>", "response": ...}`.
+ * `response` is the raw text the graders read, or form answers keyed by field path
+ * (built into the response text the same way the labeler form does).
+ */
+export interface ResponseRecord {
+  line: number // 1-based line in the JSONL file
+  task: string
+  id?: string // Optional label, e.g. the model or sample that produced the response
+  response: string | FormResponses
+}
+
+export interface ResponseParseError {
+  line: number
+  message: string
+}
+
+export interface GradedResponse {
+  line: number
+  task: string
+  id?: string
+  percentageScore: number | null
+  totalScore: number | null
+  maxScore: number | null
+  passed: boolean | null
+  partial: boolean // Some graders (bash graders under --no-bash) were skipped
+  error?: string
+  evaluation?: EvaluationResult
+}
+
+export interface TaskGradingSummary {
+  task: string
+  responses: number
+  graded: number
+  errors: number
+  passed: number
+  passRate: number | null // Fraction of graded responses that passed
+  meanScore: number | null // Mean percentage score of graded responses
+  minScore: number | null
+  maxScore: number | null
+}
+
+export interface GradingReport {
+  results: GradedResponse[]
+  tasks: TaskGradingSummary[]
+  overall: TaskGradingSummary // task is '*'
+}
+
+/**
+ * Parses a JSONL responses file. Blank lines are skipped; malformed lines are reported
+ * and left out rather than failing the whole file.
+ */
+export function parseResponsesJsonl(text: string): { records: ResponseRecord[]; errors: ResponseParseError[] } {
+  const records: ResponseRecord[] = []
+  const errors: ResponseParseError[] = []
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1
+    if (rawLine.trim() === '') return
+
+    let value: unknown
+    try {
+      value = JSON.parse(rawLine)
+    } catch (error) {
+      errors.push({ line, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` })
+      return
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push({ line, message: 'Expected a JSON object' })
+      return
+    }
+
+    const entry = value as Record<string, unknown>
+    if (typeof entry.task !== 'string' || entry.task.trim() === '') {
+      errors.push({ line, message: 'Expected "task" (the task name)' })
+      return
+    }
+    if (!isResponse(entry.response)) {
+      errors.push({ line, message: 'Expected "response" (a string, or an object of form answers)' })
+      return
+    }
+    if (entry.id !== undefined && typeof entry.id !== 'string' && typeof entry.id !== 'number') {
+      errors.push({ line, message: 'Field "id" must be a string or number' })
+      return
+    }
+
+    records.push({
+      line,
+      task: entry.task,
+      id: entry.id === undefined ? undefined : String(entry.id),
+      response: entry.response,
+    })
+  })
+
+  return { records, errors }
+}
+
+/**
+ * Runs each response through the graders of the task with the same name.
+ * Responses for unknown tasks, and responses the graders fail on, are reported as errors.
+ * Bash graders run only when a `bashExecutor` is supplied.
+ */
+export async function gradeResponses(
+  tasks: TaskDefinition[],
+  records: ResponseRecord[],
+  options: { bashExecutor?: BashGraderExecutor } = {}
+): Promise<GradingReport> {
+  const tasksByName = new Map(tasks.map(task => [task.name, task]))
+  const results: GradedResponse[] = []
+
+  // Sequential on purpose: bash graders spawn a process each
+  for (const record of records) {
+    const result: GradedResponse = {
+      line: record.line,
+      task: record.task,
+      id: record.id,
+      percentageScore: null,
+      totalScore: null,
+      maxScore: null,
+      passed: null,
+      partial: false,
+    }
+
+    const task = tasksByName.get(record.task)
+    if (!task) {
+      results.push({ ...result, error: `No task named "${record.task}"` })
+      continue
+    }
+
+    try {
+      const responseText = typeof record.response === 'string'
+        ? record.response
+        : buildResponseText(task.graders, { formData: record.response })
+      const evaluation = await evaluateResponse(responseText, task.graders, {
+        bashExecutor: options.bashExecutor,
+        aggregation: task.score_aggregation,
+      })
+      results.push({
+        ...result,
+        percentageScore: evaluation.percentageScore,
+        totalScore: evaluation.totalScore,
+        maxScore: evaluation.maxScore,
+        passed: evaluation.passed,
+        partial: evaluation.partial === true,
+        evaluation,
+      })
+    } catch (error) {
+      results.push({ ...result, error: error instanceof Error ? error.message : 'Unknown grading error' })
+    }
+  }
+
+  // Summaries follow the task file order, then any unknown task names in response order
+  const taskNames = [...new Set([...tasks.map(task => task.name), ...results.map(result => result.task)])]
+  const summaries = taskNames
+    .map(name => summarize(name, results.filter(result => result.task === name)))
+    .filter(summary => summary.responses > 0)
+
+  return { results, tasks: summaries, overall: summarize('*', results) }
+}
+
+function summarize(task: string, results: GradedResponse[]): TaskGradingSummary {
+  const scores = results
+    .map(result => result.percentageScore)
+    .filter((score): score is number => score !== null)
+  const passed = results.filter(result => result.passed === true).length
+
+  return {
+    task,
+    responses: results.length,
+    graded: scores.length,
+    errors: results.filter(result => result.error !== undefined).length,
+    passed,
+    passRate: scores.length > 0 ? passed / scores.length : null,
+    meanScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+    minScore: scores.length > 0 ? Math.min(...scores) : null,
+    maxScore: scores.length > 0 ? Math.max(...scores) : null,
+  }
+}
+
+/**
+ * One row per response. Per-grader scores get a `<grader name> score` column each.
+ */
+export function resultsToCsv(results: GradedResponse[]): string {
+  const graderNames = [...new Set(results.flatMap(result =>
+    result.evaluation?.graderResults.map(graderResult => graderResult.graderName) ?? []))]
+
+  const header = ['line', 'task', 'id', 'percentage_score', 'total_score', 'max_score', 'passed', 'partial', 'error',
+    ...graderNames.map(name => `${name} score`)]
+  const rows = results.map(result => [
+    result.line,
+    result.task,
+    result.id,
+    result.percentageScore,
+    result.totalScore,
+    result.maxScore,
+    result.passed,
+    result.partial,
+    result.error,
+    ...graderNames.map(name => {
+      const graderResult = result.evaluation?.graderResults.find(r => r.graderName === name)
+      if (graderResult?.skipped) return 'skipped'
+      return graderResult ? `${graderResult.score}/${graderResult.maxScore}` : undefined
+    }),
+  ])
+
+  return toCsv([header, ...rows])
+}
+
+export function summaryToCsv(report: GradingReport): string {
+  const header = ['task', 'responses', 'graded', 'errors', 'passed', 'pass_rate', 'mean_score', 'min_score', 'max_score']
+  const rows = [...report.tasks, report.overall].map(summary => [
+    summary.task,
+    summary.responses,
+    summary.graded,
+    summary.errors,
+    summary.passed,
+    summary.passRate,
+    summary.meanScore,
+    summary.minScore,
+    summary.maxScore,
+  ])
+
+  return toCsv([header, ...rows])
+}
+
+function isResponse(value: unknown): value is string | FormResponses {
+  if (typeof value === 'string') return true
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(v =>
+      typeof v === 'string' || typeof v === 'number' ||
+      (Array.isArray(v) && v.every(entry => typeof entry === 'string')))
+}
+
+// RFC 4180: quote fields holding a comma, quote or line break, doubling inner quotes
+function toCsv(rows: unknown[][]): string {
+  return rows
+    .map(row => row.map(cell => {
+      const text = cell === null || cell === undefined ? '' : String(cell)
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }).join(','))
+    .join('\n') + '\n'
+}
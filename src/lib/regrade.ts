@@ -0,0 +1,276 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Submission, Task, TaskStatus } from '@/types/database'
+import { evaluateResponse, type EvaluationResult, type GraderResult } from '@/lib/grader'
+import { runBashGrader } from '@/lib/bashGrader'
+import { buildGraderSnapshot, canonicalJson, hashGraderSnapshot, isGradedWithStaleConfig } from '@/lib/graderSnapshot'
+import { buildResponseText, type SubmissionResponseData } from '@/lib/submissionResponse'
+
+// Server-only: re-runs graders (including bash graders) and writes scores with the
+// service role. Client components may only import its types.
+
+export interface RegradeFilters {
+  statuses?: TaskStatus[] // Only regrade submissions in these statuses (all when empty)
+  includeReviewerCreated?: boolean // Reviewer "best answer" submissions are skipped by default
+}
+
+export interface RegradeEntry {
+  submissionId: string
+  taskId: string
+  labelerId: string
+  status: TaskStatus
+  beforeScore: number | null
+  afterScore: number | null
+  beforePassed: boolean | null
+  afterPassed: boolean | null
+  changed: boolean // Whether any grader's or field's score or pass state differs, even when the total does not
+  stale: boolean // Whether it was graded with a grader config other than the current one
+  afterResults?: EvaluationResult // The previewed results, sent back with `token` to commit them
+  token?: string
+  error?: string
+}
+
+// A previewed result the admin chose to commit, as returned in a dry run's entries
+export interface PreviewedRegrade {
+  submissionId: string
+  afterResults: EvaluationResult
+  token: string
+}
+
+export interface RegradeSummary {
+  total: number
+  changed: number
+  improved: number
+  worsened: number
+  unchanged: number
+  stale: number
+  newlyPassing: number
+  newlyFailing: number
+  errors: number
+  averageBefore: number | null
+  averageAfter: number | null
+}
+
+export interface RegradeResult {
+  committed: boolean
+  entries: RegradeEntry[]
+  summary: RegradeSummary
+}
+
+/**
+ * Re-runs the current graders of the given tasks over their existing submissions.
+ *
+ * Without `commit` this is a dry run that reports the impact and returns each new result
+ * with a signed token. With `commit`, the graders are not run again: the `previewed`
+ * results are written as they were shown, provided their token still matches the
+ * submission and the task's grader config. Every submission whose results changed gets
+ * its new grader_results and score, and a row in submission_regrades recording the
+ * before/after scores. Every committed submission is stamped with the current grader
+ * config hash and snapshot.
+ */
+export async function regradeSubmissions(
+  admin: SupabaseClient,
+  taskIds: string[],
+  filters: RegradeFilters,
+  options: { commit: boolean; regradedBy: string; previewed?: PreviewedRegrade[] }
+): Promise<RegradeResult> {
+  const { data: tasks, error: tasksError } = await admin
+    .from('tasks')
+    .select('*')
+    .in('id', taskIds)
+
+  if (tasksError) throw new Error(`Failed to load tasks: ${tasksError.message}`)
+
+  let query = admin
+    .from('submissions')
+    .select('*')
+    .in('task_id', taskIds)
+    .order('submitted_at', { ascending: true })
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    query = query.in('status', filters.statuses)
+  }
+  if (!filters.includeReviewerCreated) {
+    query = query.eq('is_reviewer_created', false)
+  }
+
+  const previewed = new Map((options.previewed ?? []).map(preview => [preview.submissionId, preview]))
+  if (options.commit) {
+    query = query.in('id', [...previewed.keys()])
+  }
+
+  const { data: submissions, error: submissionsError } = await query
+  if (submissionsError) throw new Error(`Failed to load submissions: ${submissionsError.message}`)
+
+  const tasksById = new Map((tasks as Task[]).map(task => [task.id, task]))
+  const snapshots = new Map((tasks as Task[]).map(task => [task.id, buildGraderSnapshot(task)]))
+  const hashes = new Map<string, string>()
+  for (const [taskId, snapshot] of snapshots) {
+    hashes.set(taskId, await hashGraderSnapshot(snapshot))
+  }
+  const entries: RegradeEntry[] = []
+
+  // Sequential on purpose: bash graders spawn a process each
+  for (const submission of submissions as Submission[]) {
+    const task = tasksById.get(submission.task_id)
+    if (!task || !Array.isArray(task.graders) || task.graders.length === 0) continue
+
+    const before = submission.grader_results as EvaluationResult | null
+    const configHash = hashes.get(task.id)!
+    const entry: RegradeEntry = {
+      submissionId: submission.id,
+      taskId: submission.task_id,
+      labelerId: submission.labeler_id,
+      status: submission.status,
+      beforeScore: submission.score,
+      afterScore: null,
+      beforePassed: before?.passed ?? null,
+      afterPassed: null,
+      changed: false,
+      stale: isGradedWithStaleConfig(submission, configHash),
+    }
+
+    let after: EvaluationResult
+    if (options.commit) {
+      const preview = previewed.get(submission.id)!
+      const expectedToken = await signRegrade(submission, configHash, preview.afterResults)
+      if (preview.token !== expectedToken) {
+        entry.error = 'The submission or the task\'s graders changed since the preview; preview again'
+        entries.push(entry)
+        continue
+      }
+      after = preview.afterResults
+    } else {
+      try {
+        const responseText = buildResponseText(task.graders, submission.response_data as SubmissionResponseData)
+        after = await evaluateResponse(responseText, task.graders, {
+          bashExecutor: (text, grader) => runBashGrader(text, grader),
+          aggregation: task.score_aggregation,
+        })
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : 'Unknown grading error'
+        entries.push(entry)
+        continue
+      }
+      entry.afterResults = after
+      entry.token = await signRegrade(submission, configHash, after)
+    }
+
+    entry.afterScore = after.percentageScore
+    entry.afterPassed = after.passed
+    // Details such as a bash grader's output and duration differ on every run, so
+    // only scores and pass states count as a change
+    entry.changed = submission.score !== after.percentageScore ||
+      entry.beforePassed !== after.passed ||
+      canonicalJson(gradingOutcome(before)) !== canonicalJson(gradingOutcome(after))
+
+    const snapshotFields = { grader_config_hash: configHash, grader_snapshot: snapshots.get(task.id) }
+
+    if (options.commit && entry.changed) {
+      const { error: updateError } = await admin
+        .from('submissions')
+        .update({ grader_results: after, score: after.percentageScore, ...snapshotFields })
+        .eq('id', submission.id)
+
+      if (updateError) {
+        entry.error = `Failed to save: ${updateError.message}`
+      } else {
+        const { error: historyError } = await admin
+          .from('submission_regrades')
+          .insert({
+            submission_id: submission.id,
+            task_id: submission.task_id,
+            previous_score: submission.score,
+            new_score: after.percentageScore,
+            previous_grader_results: before,
+            new_grader_results: after,
+            regraded_by: options.regradedBy,
+          })
+
+        if (historyError) {
+          console.error('Failed to record regrade history:', historyError)
+        }
+      }
+    } else if (options.commit && entry.stale) {
+      // Same results under the current config: only the snapshot needs bringing up to date
+      const { error: updateError } = await admin
+        .from('submissions')
+        .update(snapshotFields)
+        .eq('id', submission.id)
+
+      if (updateError) {
+        entry.error = `Failed to save: ${updateError.message}`
+      }
+    }
+
+    entries.push(entry)
+  }
+
+  return { committed: options.commit, entries, summary: summarizeRegrade(entries) }
+}
+
+// The scores and pass states in a result, per grader and per field, without other details
+function gradingOutcome(result: EvaluationResult | null) {
+  if (!result) return null
+  const outcome = (value: unknown) => {
+    if (typeof value !== 'object' || value === null) return undefined
+    const { score, passed } = value as { score?: unknown; passed?: unknown }
+    return score === undefined && passed === undefined ? undefined : { score, passed }
+  }
+
+  return {
+    totalScore: result.totalScore,
+    maxScore: result.maxScore,
+    passed: result.passed,
+    graders: (result.graderResults ?? []).map((grader: GraderResult) => ({
+      name: grader.graderName,
+      score: grader.score,
+      maxScore: grader.maxScore,
+      passed: grader.passed,
+      fields: Object.fromEntries(Object.entries(grader.details ?? {}).map(([key, value]) => [key, outcome(value)])),
+    })),
+  }
+}
+
+/**
+ * HMAC over a previewed result, the grader config it came from and the submission as
+ * it was, keyed with the service role key so only this server can issue tokens.
+ */
+async function signRegrade(
+  submission: Pick<Submission, 'id' | 'updated_at'>,
+  configHash: string,
+  after: EvaluationResult
+): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await globalThis.crypto.subtle.importKey(
+    'raw',
+    encoder.encode(process.env.SUPABASE_SERVICE_ROLE_KEY ?? ''),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const message = [submission.id, submission.updated_at, configHash, canonicalJson(after)].join('\n')
+  const signature = await globalThis.crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function summarizeRegrade(entries: RegradeEntry[]): RegradeSummary {
+  const graded = entries.filter(entry => !entry.error)
+  const average = (scores: Array<number | null>) => {
+    const known = scores.filter((score): score is number => score !== null)
+    return known.length > 0 ? known.reduce((sum, score) => sum + score, 0) / known.length : null
+  }
+
+  return {
+    total: entries.length,
+    changed: graded.filter(entry => entry.changed).length,
+    improved: graded.filter(entry => (entry.afterScore ?? 0) > (entry.beforeScore ?? 0)).length,
+    worsened: graded.filter(entry => (entry.afterScore ?? 0) < (entry.beforeScore ?? 0)).length,
+    unchanged: graded.filter(entry => !entry.changed).length,
+    stale: graded.filter(entry => entry.stale).length,
+    newlyPassing: graded.filter(entry => entry.beforePassed !== true && entry.afterPassed === true).length,
+    newlyFailing: graded.filter(entry => entry.beforePassed === true && entry.afterPassed === false).length,
+    errors: entries.length - graded.length,
+    averageBefore: average(graded.map(entry => entry.beforeScore)),
+    averageAfter: average(graded.map(entry => entry.afterScore)),
+  }
+}
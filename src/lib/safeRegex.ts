@@ -0,0 +1,392 @@
+import { REGEX_FLAGS } from '@/lib/graderSchema'
+
+/**
+ * Regex matching for admin-supplied comparator patterns. JavaScript cannot interrupt a
+ * running RegExp, and patterns also run in the browser (playground, validator
+ * examples) where there is no worker to kill, so the protection is static:
+ * findDangerousPattern refuses patterns prone to catastrophic backtracking before they
+ * are compiled. Its checks are conservative and may refuse some safe patterns. Inputs
+ * are capped in length, and each grading run has a time budget after which further
+ * regex checks fail instead of running; the budget cannot stop a match in progress.
+ */
+
+export const MAX_PATTERN_LENGTH = 1000
+export const MAX_REGEX_INPUT_LENGTH = 1000
+export const REGEX_TIME_BUDGET_MS = 100
+
+// Outer repetition counts at or above this make a nested quantifier dangerous
+const DANGEROUS_REPEAT_COUNT = 10
+
+export type RegexOutcome = { matched: boolean } | { error: string }
+
+/**
+ * Compiles and runs patterns for one grading run. Compiled patterns are cached for the
+ * run, and the time spent matching counts against the run's budget.
+ */
+export class RegexSession {
+  private cache = new Map<string, RegExp | string>()
+  private elapsedMs = 0
+
+  constructor(private budgetMs = REGEX_TIME_BUDGET_MS) {}
+
+  test(pattern: string, flags: string | undefined, input: string): RegexOutcome {
+    if (this.elapsedMs > this.budgetMs) {
+      return { error: `regex time budget of ${this.budgetMs}ms exhausted` }
+    }
+    if (input.length > MAX_REGEX_INPUT_LENGTH) {
+      return { error: `answer longer than ${MAX_REGEX_INPUT_LENGTH} characters` }
+    }
+
+    const regex = this.compile(pattern, flags ?? '')
+    if (typeof regex === 'string') return { error: regex }
+
+    const started = Date.now()
+    const matched = regex.test(input)
+    this.elapsedMs += Date.now() - started
+    return { matched }
+  }
+
+  // Returns the compiled pattern, or why it cannot be used
+  private compile(pattern: string, flags: string): RegExp | string {
+    const key = `${flags}/${pattern}`
+    let compiled = this.cache.get(key)
+    if (compiled === undefined) {
+      const invalidFlags = findInvalidFlags(flags)
+      const danger = findDangerousPattern(pattern, flags)
+      if (invalidFlags) {
+        compiled = `invalid flags: ${invalidFlags}`
+      } else if (danger) {
+        compiled = `unsafe pattern: ${danger}`
+      } else {
+        try {
+          compiled = new RegExp(pattern, flags)
+        } catch (error) {
+          compiled = `invalid pattern: ${error instanceof Error ? error.message : String(error)}`
+        }
+      }
+      this.cache.set(key, compiled)
+    }
+    return compiled
+  }
+}
+
+/**
+ * Describes what is wrong with a flags string, or returns null when it is valid
+ */
+export function findInvalidFlags(flags: string): string | null {
+  const unknown = [...flags].find(flag => !(REGEX_FLAGS as readonly string[]).includes(flag))
+  if (unknown) return `flag "${unknown}" is not allowed (use ${REGEX_FLAGS.join(', ')})`
+  if (new Set(flags).size !== flags.length) return 'flags repeat'
+  return null
+}
+
+interface GroupFrame {
+  repeats: boolean // Holds an unbounded quantifier
+  ambiguous: boolean // Holds an alternation whose branches can start with the same character
+  branches: string[] // Source of each alternative
+  pending: FirstChars | null // What the unbounded atoms in the current run of this branch can match
+  trailing: FirstChars | null // The same for the runs that ended earlier branches
+}
+
+/**
+ * Describes why a pattern risks catastrophic backtracking, or returns null when it looks
+ * safe. Flags nested quantifiers such as (a+)+ or (\w*){10,}, repeated groups
+ * containing alternatives that can start with the same character, such as (a|aa)+,
+ * (a|ab)*, (\w|\d)+ or (a|)+, and unbounded atoms in a row that can match the same
+ * characters, such as \d+\d+, .*.* or \w+\w*: those give the engine many ways to
+ * split one input. A run of unbounded atoms ends at a literal character or at an atom
+ * none of them can match, so \d+,\d+ and .*x.* pass. Branches starting with a group,
+ * an assertion or an optional atom are assumed to overlap with everything. With the
+ * i flag, letters overlap across case.
+ */
+export function findDangerousPattern(pattern: string, flags = ''): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `pattern is longer than ${MAX_PATTERN_LENGTH} characters`
+  }
+
+  const ignoreCase = flags.includes('i')
+  const newFrame = (): GroupFrame => ({ repeats: false, ambiguous: false, branches: [''], pending: null, trailing: null })
+  const stack: GroupFrame[] = [newFrame()]
+  const zeroWidth: boolean[] = [] // Per open group: whether it is a lookaround
+  const current = () => stack[stack.length - 1]
+  const append = (text: string) => {
+    const branches = current().branches
+    branches[branches.length - 1] += text
+  }
+  const adjacentMessage = 'unbounded quantifiers in a row can match the same characters (e.g. "\\d+\\d+")'
+
+  let pos = 0
+  while (pos < pattern.length) {
+    const char = pattern[pos]
+
+    if (char === '\\') {
+      const escape = readEscape(pattern, pos)
+      const atom = pattern.slice(pos, escape.end)
+      append(atom)
+      pos = escape.end
+      if (!/^\\[bB]$/.test(atom) && continuesOverlappingRun(current(), foldCase(escape.chars, ignoreCase), readQuantifier(pattern, pos), escape.code !== undefined)) {
+        return adjacentMessage
+      }
+    } else if (char === '[') {
+      const end = classEnd(pattern, pos)
+      append(pattern.slice(pos, end))
+      const chars = foldCase(classChars(pattern.slice(pos + 1, end - 1)), ignoreCase)
+      pos = end
+      if (continuesOverlappingRun(current(), chars, readQuantifier(pattern, pos), false)) {
+        return adjacentMessage
+      }
+    } else if (char === '(') {
+      const prefix = pattern.slice(pos).match(/^\((?:\?(?::|=|!|<=|<!|<[A-Za-z_]\w*>))?/)![0]
+      stack.push(newFrame())
+      zeroWidth.push(/^\(\?(?:=|!|<=|<!)$/.test(prefix))
+      pos += prefix.length
+    } else if (char === '|') {
+      const frame = current()
+      frame.branches.push('')
+      if (frame.pending) frame.trailing = unionChars(frame.trailing, frame.pending)
+      frame.pending = null
+      pos += 1
+    } else if (char === ')' && stack.length > 1) {
+      const group = stack.pop()!
+      const lookaround = zeroWidth.pop()!
+      pos += 1
+      const quantifier = readQuantifier(pattern, pos)
+      pos += quantifier.length
+
+      if (!lookaround && continuesRunThroughGroup(current(), group, quantifier, ignoreCase)) {
+        return adjacentMessage
+      }
+
+      const ambiguous = group.ambiguous || hasOverlappingBranches(group.branches, ignoreCase)
+      if (quantifier.repeats) {
+        if (group.repeats) {
+          return 'a repeated group contains another unbounded quantifier (e.g. "(a+)+")'
+        }
+        if (ambiguous) {
+          return 'a repeated group has alternatives that can start with the same character (e.g. "(a|aa)+")'
+        }
+      }
+
+      current().repeats ||= group.repeats || quantifier.unbounded
+      current().ambiguous ||= ambiguous
+      append(`(${group.branches.join('|')})${pattern.slice(pos - quantifier.length, pos)}`)
+    } else {
+      const quantifier = readQuantifier(pattern, pos)
+      if (quantifier.length > 0) {
+        current().repeats ||= quantifier.unbounded
+        append(pattern.slice(pos, pos + quantifier.length))
+        pos += quantifier.length
+      } else {
+        append(char)
+        pos += 1
+        if (!'^$'.includes(char)) {
+          const code = char.codePointAt(0)!
+          const chars = char === '.' ? 'any' : foldCase(singleChar(code), ignoreCase)
+          if (continuesOverlappingRun(current(), chars, readQuantifier(pattern, pos), char !== '.')) {
+            return adjacentMessage
+          }
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Adds an atom to the current run of its branch and reports whether it is an unbounded
+ * atom that can match what an earlier unbounded atom of the run matches. A literal
+ * character, or a required atom that none of the run's atoms match, ends the run.
+ */
+function continuesOverlappingRun(
+  frame: GroupFrame,
+  chars: FirstChars,
+  quantifier: { unbounded: boolean; optional: boolean },
+  literal: boolean
+): boolean {
+  const separates = !quantifier.optional && (literal || !frame.pending || !charsOverlap(frame.pending, chars))
+  if (quantifier.unbounded) {
+    if (frame.pending && charsOverlap(frame.pending, chars)) return true
+    frame.pending = separates ? chars : unionChars(frame.pending, chars)
+  } else if (separates) {
+    frame.pending = null
+  }
+  return false
+}
+
+/**
+ * The same for a closed group: it continues the run when it can repeat and starts with
+ * characters the run matches, and passes on the run its branches end with.
+ */
+function continuesRunThroughGroup(
+  frame: GroupFrame,
+  group: GroupFrame,
+  quantifier: { unbounded: boolean; optional: boolean },
+  ignoreCase: boolean
+): boolean {
+  const leading = group.branches
+    .map(branch => foldCase(firstChars(branch), ignoreCase))
+    .reduce<FirstChars | null>((union, chars) => unionChars(union, chars), null) ?? 'any'
+  const trailing = group.pending ? unionChars(group.trailing, group.pending) : group.trailing
+  const overlaps = !!frame.pending && charsOverlap(frame.pending, leading)
+
+  if (overlaps && (group.repeats || quantifier.unbounded)) return true
+  if (quantifier.optional || overlaps) {
+    if (trailing) frame.pending = unionChars(frame.pending, trailing)
+  } else {
+    frame.pending = trailing
+  }
+  return false
+}
+
+function unionChars(a: FirstChars | null, b: FirstChars): FirstChars {
+  if (a === null) return b
+  if (a === 'any' || b === 'any') return 'any'
+  return a.map((member, code) => member || b[code])
+}
+
+function charsOverlap(a: FirstChars, b: FirstChars): boolean {
+  if (a === 'any' || b === 'any') return true
+  return a.some((member, code) => member && b[code])
+}
+
+// With the i flag, a letter also matches its other case
+function foldCase(chars: FirstChars, ignoreCase: boolean): FirstChars {
+  if (chars === 'any' || !ignoreCase) return chars
+  return chars.map((member, code) => member || (code >= 65 && code <= 122 && chars[code ^ 32] && /[A-Za-z]/.test(String.fromCharCode(code))))
+}
+
+// Which characters can start a match: ASCII codes 0-127, and 128 for anything beyond
+type FirstChars = boolean[] | 'any'
+
+const ASCII_SIZE = 128
+const CLASS_ESCAPES: Record<string, (code: number) => boolean> = {
+  d: code => code >= 48 && code <= 57,
+  w: code => (code >= 48 && code <= 57) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || code === 95,
+  s: code => code === 32 || (code >= 9 && code <= 13),
+}
+const ESCAPED_CHARS: Record<string, string> = { n: '\n', r: '\r', t: '\t', f: '\f', v: '\v', '0': '\0' }
+
+function hasOverlappingBranches(branches: string[], ignoreCase: boolean): boolean {
+  if (branches.length < 2) return false
+  const firsts = branches.map(branch => foldCase(firstChars(branch), ignoreCase))
+  return firsts.some((a, i) => firsts.slice(i + 1).some(b => charsOverlap(a, b)))
+}
+
+// The characters the first atom of a branch can match, or 'any' when that is unclear
+function firstChars(branch: string): FirstChars {
+  if (branch === '' || /^[(^$.]/.test(branch)) return 'any'
+
+  let set: FirstChars
+  let end: number
+  if (branch[0] === '[') {
+    end = classEnd(branch, 0)
+    set = classChars(branch.slice(1, end - 1))
+  } else if (branch[0] === '\\') {
+    const escape = readEscape(branch, 0)
+    set = escape.chars
+    end = escape.end
+  } else {
+    const code = branch.codePointAt(0)!
+    set = singleChar(code)
+    end = code > 0xffff ? 2 : 1
+  }
+
+  // An optional first atom lets the next one start the match too
+  return /^(?:[*?]|\{0[,}])/.test(branch.slice(end)) ? 'any' : set
+}
+
+function singleChar(code: number): boolean[] {
+  const set = new Array<boolean>(ASCII_SIZE + 1).fill(false)
+  set[Math.min(code, ASCII_SIZE)] = true
+  return set
+}
+
+function readEscape(source: string, pos: number): { chars: FirstChars; end: number; code?: number } {
+  const letter = source[pos + 1]
+  if (letter === undefined) return { chars: 'any', end: pos + 1 }
+
+  const lower = letter.toLowerCase()
+  if (lower in CLASS_ESCAPES) {
+    const test = CLASS_ESCAPES[lower]
+    const negated = letter !== lower
+    const chars = Array.from({ length: ASCII_SIZE + 1 }, (_, code) =>
+      code === ASCII_SIZE ? negated || lower === 's' : test(code) !== negated
+    )
+    return { chars, end: pos + 2 }
+  }
+
+  const hex = /^(?:x([0-9a-fA-F]{2})|u([0-9a-fA-F]{4}))/.exec(source.slice(pos + 1))
+  if (hex) {
+    const code = parseInt(hex[1] ?? hex[2], 16)
+    return { chars: singleChar(code), end: pos + 1 + hex[0].length, code }
+  }
+  if (/[bBkpP1-9]/.test(letter)) return { chars: 'any', end: pos + 2 } // Assertions, backreferences, properties
+
+  const code = (ESCAPED_CHARS[letter] ?? letter).charCodeAt(0)
+  return { chars: singleChar(code), end: pos + 2, code }
+}
+
+// Characters matched by the inside of a [...] class
+function classChars(body: string): FirstChars {
+  const negated = body.startsWith('^')
+  const set = new Array<boolean>(ASCII_SIZE + 1).fill(false)
+  let pos = negated ? 1 : 0
+
+  while (pos < body.length) {
+    let low: number | undefined
+    if (body[pos] === '\\') {
+      const escape = readEscape(body, pos)
+      if (escape.chars === 'any') return 'any'
+      escape.chars.forEach((member, code) => { if (member) set[code] = true })
+      low = escape.code
+      pos = escape.end
+    } else {
+      low = body.codePointAt(pos)!
+      pos += low > 0xffff ? 2 : 1
+    }
+    if (low === undefined) continue
+
+    if (body[pos] === '-' && pos + 1 < body.length) {
+      const high = body[pos + 1] === '\\' ? readEscape(body, pos + 1).code : body.codePointAt(pos + 1)
+      if (high !== undefined) {
+        for (let code = low; code <= Math.min(high, ASCII_SIZE); code++) set[code] = true
+        if (high >= ASCII_SIZE) set[ASCII_SIZE] = true
+        pos = body[pos + 1] === '\\' ? readEscape(body, pos + 1).end : pos + (high > 0xffff ? 3 : 2)
+        continue
+      }
+    }
+    set[Math.min(low, ASCII_SIZE)] = true
+  }
+
+  // Negated classes almost always include characters beyond ASCII
+  return negated ? set.map((member, code) => code === ASCII_SIZE || !member) : set
+}
+
+function classEnd(pattern: string, start: number): number {
+  let pos = start + 1
+  if (pattern[pos] === '^') pos += 1
+  if (pattern[pos] === ']') pos += 1
+  while (pos < pattern.length && pattern[pos] !== ']') {
+    pos += pattern[pos] === '\\' ? 2 : 1
+  }
+  return pos + 1
+}
+
+/**
+ * Reads a quantifier at `pos`. `unbounded` is true for *, + and {n,}; `repeats` also
+ * covers bounded counts large enough to blow up when nested.
+ */
+function readQuantifier(
+  pattern: string,
+  pos: number
+): { length: number; unbounded: boolean; repeats: boolean; optional: boolean } {
+  const match = pattern.slice(pos).match(/^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/)
+  if (!match) return { length: 0, unbounded: false, repeats: false, optional: false }
+
+  const symbol = match[0][0]
+  const unbounded = symbol === '*' || symbol === '+' || (match[2] !== undefined && match[3] === '')
+  const maxCount = match[1] === undefined ? 1 : Number(match[2] === undefined ? match[1] : match[3] || Infinity)
+  const optional = symbol === '*' || symbol === '?' || match[1] === '0'
+  return { length: match[0].length, unbounded, repeats: unbounded || maxCount >= DANGEROUS_REPEAT_COUNT, optional }
+}
@@ -0,0 +1,104 @@
+import type { GraderConfig, GraderStructureField } from '@/types/database'
+import { buildXmlResponse, escapeXml, structureInputPaths } from '@/lib/xmlParser'
+
+// List fields hold one string per entry
+export type FormResponses = Record<string, string | number | string[]>
+
+/**
+ * Shape of submissions.response_data as written by the labeler task view
+ */
+export interface SubmissionResponseData {
+  formData?: FormResponses // Structured graders (fill-in-the-blank form)
+  text?: string // Plain text graders
+  editedPrompt?: string
+  generatedResponse?: string // Response text the graders actually saw
+}
+
+/**
+ * Whether a grader is answered through the fill-in-the-blank form
+ */
+export function isStructuredGrader(grader: GraderConfig | null | undefined): boolean {
+  if (!grader || !grader.config) return false
+  const hasStructure = Array.isArray(grader.config.structure) && grader.config.structure.length > 0
+  const hasTestCases = Array.isArray(grader.config.test_cases) && grader.config.test_cases.length > 0
+  return hasStructure || hasTestCases
+}
+
+export function hasStructuredGrader(graders: GraderConfig[] | null | undefined): boolean {
+  return !!graders?.some(isStructuredGrader)
+}
+
+/**
+ * Returns the path of the first form field left empty, or null when all are filled
+ */
+export function findMissingField(graders: GraderConfig[], formData: FormResponses): string | null {
+  const grader = graders.find(isStructuredGrader)
+  if (!grader) return null
+
+  const paths = [
+    ...structureInputPaths(grader.config.structure ?? []).map(({ path }) => path),
+    ...(grader.config.test_cases ?? []).map(testCase => testCase.id),
+  ]
+
+  for (const path of paths) {
+    const value = formData[path]
+    const isEmpty = value === undefined || value === null || value === '' ||
+                   (typeof value === 'string' && value.trim() === '') ||
+                   (Array.isArray(value) && value.every(entry => entry.trim() === ''))
+    if (isEmpty) return path
+  }
+  return null
+}
+
+/**
+ * Builds the response text the graders evaluate from what the labeler entered
+ */
+export function buildResponseText(graders: GraderConfig[], responseData: SubmissionResponseData): string {
+  if (!hasStructuredGrader(graders)) {
+    return responseData.text ?? ''
+  }
+
+  // Submissions saved before formData was stored only have the generated response
+  if (!responseData.formData && responseData.generatedResponse !== undefined) {
+    return responseData.generatedResponse
+  }
+
+  const formData = responseData.formData ?? {}
+  const grader = graders.find(isStructuredGrader)
+
+  if (grader?.type === 'xml' && grader.config.structure) {
+    // Every xml grader reads the same response, so emit each top-level item once
+    const structure = graders
+      .flatMap(g => (g.type === 'xml' && g.config.structure) || [])
+      .filter((field, index, all) => all.findIndex(f => f.name === field.name) === index)
+    return buildXmlResponse(structure, formData)
+  }
+
+  if (grader?.type === 'json') {
+    return JSON.stringify(buildJsonResponse(grader.config.structure ?? [], formData), null, 2)
+  }
+
+  return Object.entries(formData)
+    .map(([key, value]) => `<${key}>${escapeXml(String(value))}</${key}>`)
+    .join('\n')
+}
+
+/**
+ * Form answers are keyed by structure path; answers to nested json fields become nested
+ * objects, as the json grader reads them
+ */
+function buildJsonResponse(structure: GraderStructureField[], formData: FormResponses): Record<string, unknown> {
+  const nestedPaths = new Set(structureInputPaths(structure).map(({ path }) => path).filter(path => path.includes('/')))
+  const response: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(formData)) {
+    const names = nestedPaths.has(key) ? key.split('/') : [key]
+    let target = response
+    for (const name of names.slice(0, -1)) {
+      if (typeof target[name] !== 'object' || target[name] === null) target[name] = {}
+      target = target[name] as Record<string, unknown>
+    }
+    target[names[names.length - 1]] = value
+  }
+  return response
+}
@@ -0,0 +1,19 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Server-only Supabase client with the service role key. It bypasses RLS, so use it
+ * only in route handlers, after checking the caller's identity with the user client.
+ */
+export function createAdminSupabaseClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
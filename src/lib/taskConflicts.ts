@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Task, TaskDefinition } from '@/types/database'
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'new_version'
+
+export type ExistingTask = Pick<Task, 'id' | 'title' | 'prompt' | 'version'>
+
+export interface TaskConflict {
+  index: number // Position in the upload's tasks array
+  taskName: string
+  reason: 'name' | 'prompt' | 'name_and_prompt'
+  existing: ExistingTask // Latest version of the matching task
+}
+
+export const CONFLICT_RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite existing',
+  new_version: 'Create new version',
+}
+
+// Names match case-insensitively; prompts must be identical apart from surrounding whitespace.
+// Only spaces, tabs and line breaks are trimmed, as btrim(…, E' \t\r\n') does in the
+// database's conflict checks, so both sides agree on what matches.
+const SURROUNDING_WHITESPACE = /^[ \t\r\n]+|[ \t\r\n]+$/g
+
+export function normalizeTaskName(name: string): string {
+  return name.replace(SURROUNDING_WHITESPACE, '').toLowerCase()
+}
+
+export function normalizeTaskPrompt(prompt: string): string {
+  return prompt.replace(SURROUNDING_WHITESPACE, '')
+}
+
+/**
+ * Fetches the existing tasks that could conflict with the upload, i.e. those sharing a
+ * name or prompt with one of its tasks, through the find_conflicting_tasks database
+ * function. findTaskConflicts picks the actual conflicts from them.
+ */
+export async function fetchConflictCandidates(
+  supabase: SupabaseClient,
+  tasks: TaskDefinition[]
+): Promise<ExistingTask[]> {
+  const { data, error } = await supabase.rpc('find_conflicting_tasks', {
+    p_names: tasks.map(task => normalizeTaskName(task.name)),
+    p_prompts: tasks.map(task => normalizeTaskPrompt(task.prompt)),
+  })
+
+  if (error) {
+    throw new Error(`Failed to check for existing tasks: ${error.message}`)
+  }
+
+  return (data || []) as ExistingTask[]
+}
+
+/**
+ * Matches uploaded tasks against existing ones by name or identical prompt. Versions of
+ * a task share its title, so each conflict points at the highest version that matches.
+ */
+export function findTaskConflicts(tasks: TaskDefinition[], existingTasks: ExistingTask[]): TaskConflict[] {
+  const latestByName = new Map<string, ExistingTask>()
+  const latestByPrompt = new Map<string, ExistingTask>()
+  const keepLatest = (map: Map<string, ExistingTask>, key: string, task: ExistingTask) => {
+    const current = map.get(key)
+    if (!current || task.version > current.version) map.set(key, task)
+  }
+  existingTasks.forEach(task => {
+    keepLatest(latestByName, normalizeTaskName(task.title), task)
+    if (task.prompt) keepLatest(latestByPrompt, normalizeTaskPrompt(task.prompt), task)
+  })
+
+  const conflicts: TaskConflict[] = []
+  tasks.forEach((task, index) => {
+    const byName = latestByName.get(normalizeTaskName(task.name))
+    const byPrompt = latestByPrompt.get(normalizeTaskPrompt(task.prompt))
+
+    if (byName) {
+      const samePrompt = byPrompt !== undefined && normalizeTaskPrompt(byName.prompt ?? '') === normalizeTaskPrompt(task.prompt)
+      conflicts.push({ index, taskName: task.name, reason: samePrompt ? 'name_and_prompt' : 'name', existing: byName })
+    } else if (byPrompt) {
+      conflicts.push({ index, taskName: task.name, reason: 'prompt', existing: byPrompt })
+    }
+  })
+
+  return conflicts
+}
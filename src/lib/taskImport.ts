@@ -0,0 +1,261 @@
+import type { BulkTaskUpload, FieldType, GraderConfig, GraderStructureField, TaskDefinition } from '@/types/database'
+import { parseYaml, YamlParseError } from '@/lib/yamlParser'
+
+export type TaskImportFormat = 'json' | 'jsonl' | 'yaml' | 'csv'
+
+export const TASK_IMPORT_FORMATS: Record<TaskImportFormat, { label: string; extensions: string[] }> = {
+  json: { label: 'JSON', extensions: ['.json'] },
+  jsonl: { label: 'JSONL', extensions: ['.jsonl', '.ndjson'] },
+  yaml: { label: 'YAML', extensions: ['.yaml', '.yml'] },
+  csv: { label: 'CSV', extensions: ['.csv', '.tsv'] },
+}
+
+export class TaskImportError extends Error {
+  line?: number // 1-based line in the imported text, when known
+
+  constructor(message: string, line?: number) {
+    super(line ? `${message} (line ${line})` : message)
+    this.name = 'TaskImportError'
+    this.line = line
+  }
+}
+
+// Which CSV column holds which task field; columns are named by their header
+export interface CsvColumnMapping {
+  name: string
+  prompt: string
+  description?: string
+  assignTo?: string // Labeler emails separated by ";" or ","
+  answers: CsvAnswerColumn[]
+}
+
+// A column of expected answers, graded as one field of the task's XML grader
+export interface CsvAnswerColumn {
+  column: string
+  field: string // Structure field id and name, i.e. the XML tag labelers answer in
+  type: FieldType
+}
+
+export function detectTaskImportFormat(fileName: string): TaskImportFormat | null {
+  const lower = fileName.toLowerCase()
+  const match = (Object.keys(TASK_IMPORT_FORMATS) as TaskImportFormat[]).find(format =>
+    TASK_IMPORT_FORMATS[format].extensions.some(extension => lower.endsWith(extension))
+  )
+  return match ?? null
+}
+
+/**
+ * JSONL: one task object per line. Blank lines are skipped. The result still needs
+ * validateTaskJSON like any pasted JSON.
+ */
+export function parseJsonlTasks(text: string): BulkTaskUpload {
+  const tasks: TaskDefinition[] = []
+  text.split(/\r?\n/).forEach((line, lineIndex) => {
+    if (!line.trim()) return
+    let task: unknown
+    try {
+      task = JSON.parse(line)
+    } catch (e) {
+      throw new TaskImportError(`Invalid JSON: ${e instanceof Error ? e.message : 'syntax error'}`, lineIndex + 1)
+    }
+    if (typeof task !== 'object' || task === null || Array.isArray(task)) {
+      throw new TaskImportError('Each line must be a task object', lineIndex + 1)
+    }
+    tasks.push(task as TaskDefinition)
+  })
+  return { tasks }
+}
+
+/**
+ * YAML: either a document with a "tasks" list, like the JSON format, or a bare list
+ * of tasks.
+ */
+export function parseYamlTasks(text: string): BulkTaskUpload {
+  let data: unknown
+  try {
+    data = parseYaml(text)
+  } catch (e) {
+    if (e instanceof YamlParseError) throw new TaskImportError(e.message)
+    throw e
+  }
+  if (Array.isArray(data)) return { tasks: data }
+  if (typeof data === 'object' && data !== null && 'tasks' in data) return data as BulkTaskUpload
+  throw new TaskImportError('YAML must be a list of tasks or have a "tasks" list')
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may hold commas, quotes
+ * as "" and line breaks). Tab-separated text is read the same way when `delimiter`
+ * is "\t". Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let quoteLine = 1
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some(value => value !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  const source = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+      quoteLine = line
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      endRow()
+      line++
+    } else {
+      cell += char
+    }
+  }
+  if (quoted) throw new TaskImportError('Unterminated quoted cell', quoteLine)
+  endRow()
+
+  return rows
+}
+
+/**
+ * Suggests a mapping from header names: "name"/"title", "prompt"/"question",
+ * "description", "assign_to" and answer columns named "expected_<field>" or
+ * "answer_<field>". Answer types are guessed from the column's values.
+ */
+export function guessCsvMapping(rows: string[][]): CsvColumnMapping {
+  const [headers = [], ...body] = rows
+  const find = (pattern: RegExp) => headers.find(header => pattern.test(header.trim()))
+
+  const answers: CsvAnswerColumn[] = []
+  headers.forEach((header, columnIndex) => {
+    const match = /^(?:expected|answer)(?:[\s_:.-]+(.+))?$/i.exec(header.trim())
+    if (!match) return
+    answers.push({
+      column: header,
+      field: toFieldId(match[1] ?? 'answer'),
+      type: inferFieldType(body.map(row => row[columnIndex] ?? '')),
+    })
+  })
+
+  return {
+    name: find(/^(?:name|title|task)$/i) ?? '',
+    prompt: find(/^(?:prompt|question)$/i) ?? '',
+    description: find(/^description$/i),
+    assignTo: find(/^(?:assign_to|assignees?|labelers?)$/i),
+    answers,
+  }
+}
+
+/**
+ * Builds one task per CSV row (after the header row). Answer columns become fields of
+ * an XML grader with an equals comparator (set_equals for lists, whose items are
+ * separated by ";"). Empty answer cells leave the field out for that row.
+ */
+export function csvToTasks(rows: string[][], mapping: CsvColumnMapping): BulkTaskUpload {
+  const [headers, ...body] = rows
+  if (!headers) throw new TaskImportError('CSV is empty')
+
+  const columnIndex = (column: string | undefined, role: string): number | null => {
+    if (!column) return null
+    const index = headers.indexOf(column)
+    if (index === -1) throw new TaskImportError(`Column "${column}" (${role}) is not in the CSV header`)
+    return index
+  }
+  const nameIndex = columnIndex(mapping.name, 'name')
+  const promptIndex = columnIndex(mapping.prompt, 'prompt')
+  if (nameIndex === null) throw new TaskImportError('Choose the column holding task names')
+  if (promptIndex === null) throw new TaskImportError('Choose the column holding prompts')
+  const descriptionIndex = columnIndex(mapping.description, 'description')
+  const assignToIndex = columnIndex(mapping.assignTo, 'assign_to')
+  const answerIndexes = mapping.answers.map(answer => columnIndex(answer.column, `answer for ${answer.field}`)!)
+
+  const tasks = body.map(row => {
+    const cell = (index: number | null) => (index === null ? '' : (row[index] ?? '').trim())
+
+    const structure: GraderStructureField[] = mapping.answers.flatMap((answer, answerIndex) => {
+      const value = cell(answerIndexes[answerIndex])
+      return value === '' ? [] : [buildAnswerField(answer, value)]
+    })
+    const grader: GraderConfig = {
+      type: 'xml',
+      name: 'Expected Answers',
+      config: { structure, binary_mode: false },
+      weight: 1,
+    }
+
+    const task: TaskDefinition = { name: cell(nameIndex), prompt: cell(promptIndex), graders: [grader] }
+    const description = cell(descriptionIndex)
+    if (description) task.description = description
+    const assignTo = splitList(cell(assignToIndex), /[;,]/)
+    if (assignTo.length > 0) task.assign_to = assignTo
+    return task
+  })
+
+  return { tasks }
+}
+
+function buildAnswerField(answer: CsvAnswerColumn, value: string): GraderStructureField {
+  const field: GraderStructureField = {
+    id: answer.field,
+    name: answer.field,
+    type: answer.type,
+    weight: 1,
+    children: [],
+    isExpanded: false,
+  }
+
+  if (answer.type === 'list') {
+    field.item_type = 'string'
+    field.comparator = { type: 'set_equals', config: { expected: splitList(value, /;/) } }
+  } else {
+    field.comparator = { type: 'equals', config: { expected: parseCell(value, answer.type) } }
+  }
+  return field
+}
+
+// Cells that don't parse as the column's type are kept as text for the validator to report
+function parseCell(value: string, type: FieldType): string | number | boolean {
+  if ((type === 'int' || type === 'float') && value !== '' && !isNaN(Number(value))) return Number(value)
+  if (type === 'bool' && /^(?:true|yes)$/i.test(value)) return true
+  if (type === 'bool' && /^(?:false|no)$/i.test(value)) return false
+  return value
+}
+
+// Narrowest field type every filled cell fits, falling back to string
+export function inferFieldType(values: string[]): FieldType {
+  const filled = values.map(value => value.trim()).filter(value => value !== '')
+  if (filled.length === 0) return 'string'
+  if (filled.every(value => /^[-+]?\d+$/.test(value))) return 'int'
+  if (filled.every(value => !isNaN(Number(value)))) return 'float'
+  if (filled.every(value => /^(?:true|false|yes|no)$/i.test(value))) return 'bool'
+  if (filled.every(value => /^\d{4}-\d{2}-\d{2}$/.test(value))) return 'date'
+  return 'string'
+}
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value.split(separator).map(item => item.trim()).filter(item => item !== '')
+}
+
+// Header text as a structure field id: lowercase letters, digits and underscores
+export function toFieldId(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'answer'
+}
@@ -7,10 +7,60 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
+import {
+  COMPARATOR_TYPES,
+  DATE_FIELD_COMPARATORS,
+  DATE_GRANULARITIES,
+  FIELD_TYPES,
+  FIELD_VALUE_TYPES,
+  FUZZY_COMPARATORS,
+  GRADER_TYPES,
+  GRADER_TYPE_SPECS,
+  LIST_COMPARATORS,
+  LIST_FIELD_COMPARATORS,
+  LIST_ITEM_TYPES,
+  NORMALIZATION_STEPS,
+  NORMALIZING_COMPARATORS,
+  SCORE_AGGREGATIONS,
+  TOLERANCE_TYPES,
+  isFieldType,
+  type ComparatorType,
+  type GraderInput,
+  type GraderType
+} from '@/lib/graderSchema';
+import { evaluateResponseSync } from '@/lib/grader';
+import { buildResponseText } from '@/lib/submissionResponse';
+import { isSupportedLocale } from '@/lib/normalization';
+import { parseQuantity } from '@/lib/units';
+import { isPreciseEnough, parseDate } from '@/lib/dates';
+import { evaluateExpression } from '@/lib/expressions';
+import { findDangerousPattern, findInvalidFlags } from '@/lib/safeRegex';
+import { parseRule } from '@/lib/graderRules';
+import { structureInputPaths } from '@/lib/xmlParser';
+import { applyJsonPatch, toJsonPointer, type JsonPatchOperation } from '@/lib/jsonPatch';
+import { buildJsonSourceMap, locatePointer } from '@/lib/jsonSourceMap';
+import { normalizeTaskName, normalizeTaskPrompt } from '@/lib/taskConflicts';
+
 export interface ValidationIssue {
   severity: 'CRITICAL' | 'ERROR' | 'WARNING' | 'INFO';
   path: string;
   message: string;
+  fix?: ValidationFix;
+  pointer?: string; // JSON Pointer of the offending value, or of its parent when it is missing
+  line?: number; // 1-based position of `pointer` in the source text, when given one
+  column?: number;
+}
+
+/**
+ * A machine-applicable correction for an issue, as JSON Patch operations on the
+ * uploaded document. Safe fixes only restate what the author evidently meant (a
+ * numeric string as a number, an editor-only default); the rest change what is graded
+ * and should be reviewed before applying.
+ */
+export interface ValidationFix {
+  description: string;
+  safe: boolean;
+  patch: JsonPatchOperation[];
 }
 
 export interface ValidationResult {
@@ -25,21 +75,74 @@ export interface ValidationResult {
 
 export interface ValidationOptions {
   strict?: boolean; // Treat warnings as errors
+  source?: string; // The JSON text `data` was parsed from, to give issues a line and column
 }
 
-// Valid values based on neoforge schema
-const VALID_GRADER_TYPES = new Set(['xml', 'bash']);
-const VALID_FIELD_TYPES = new Set(['int', 'float', 'string', 'bool']);
-const VALID_COMPARATOR_TYPES = new Set([
-  'equals',
-  'tolerance',
-  'range',
-  'contains',
-  'regex',
-  'in_list',
-  'length'
-]);
-const VALID_TOLERANCE_TYPES = new Set(['absolute', 'percentage']);
+// Valid values come from the shared grader schema, which the grader also dispatches on
+const VALID_GRADER_TYPES = new Set<string>(GRADER_TYPES);
+const VALID_FIELD_TYPES = new Set<string>(FIELD_TYPES);
+const VALID_COMPARATOR_TYPES = new Set<string>(COMPARATOR_TYPES);
+const VALID_LIST_ITEM_TYPES = new Set<string>(LIST_ITEM_TYPES);
+const VALID_DATE_GRANULARITIES = new Set<string>(DATE_GRANULARITIES);
+const VALID_TOLERANCE_TYPES = new Set<string>(TOLERANCE_TYPES);
+const VALID_SCORE_AGGREGATIONS = new Set<string>(SCORE_AGGREGATIONS);
+const VALID_NORMALIZE_KEYS = new Set<string>([...NORMALIZATION_STEPS, 'number_locale']);
+
+// Config validator for each kind of grader input declared in the schema
+// pointer is the JSON Pointer of the grader, for fixes
+type GraderConfigValidator = (
+  config: any,
+  taskName: string,
+  graderName: string,
+  graderType: GraderType,
+  pointer: string
+) => ValidationIssue[];
+
+// Config validator for each comparator type declared in the schema.
+// listItemType is the item_type of list fields (entries of their expected lists)
+type ComparatorConfigValidator = (
+  config: any,
+  itemType: string,
+  path: string,
+  itemName: string,
+  listItemType: string
+) => ValidationIssue[];
+
+const COMPARATOR_VALIDATORS: Record<ComparatorType, ComparatorConfigValidator> = {
+  equals: (config, itemType, path, itemName, listItemType) =>
+    itemType === 'list'
+      ? validateListExpected(config, listItemType, path)
+      : itemType === 'date'
+        ? validateDateComparator(config, 'equals', path)
+        : validateEqualsComparator(config, itemType, path, itemName),
+  tolerance: (config, itemType, path, itemName) =>
+    itemType === 'date'
+      ? validateDateComparator(config, 'tolerance', path)
+      : validateToleranceComparator(config, itemType, path, itemName),
+  range: (config, itemType, path, itemName) =>
+    itemType === 'date'
+      ? validateDateComparator(config, 'range', path)
+      : validateRangeComparator(config, path, itemName),
+  contains: (config, itemType, path, itemName) => validateContainsComparator(config, path, itemName),
+  regex: (config, itemType, path, itemName) => validateRegexComparator(config, path, itemName),
+  in_list: (config, itemType, path, itemName) => validateInListComparator(config, path, itemName),
+  length: (config, itemType, path, itemName) => validateLengthComparator(config, path, itemName),
+  set_equals: (config, itemType, path, itemName, listItemType) => validateListExpected(config, listItemType, path),
+  subset: (config, itemType, path, itemName, listItemType) => validateSubsetComparator(config, listItemType, path),
+  jaccard: (config, itemType, path, itemName, listItemType) => validateJaccardComparator(config, listItemType, path),
+  expression: (config, itemType, path, itemName) => validateExpressionComparator(config, itemType, path)
+};
+
+const GRADER_CONFIG_VALIDATORS: Record<GraderInput, GraderConfigValidator> = {
+  structure: (config, taskName, graderName, graderType, pointer) =>
+    validateStructureGraderConfig(config, taskName, graderName, graderType, pointer),
+  expected: (config, taskName, graderName, graderType) =>
+    validateExpectedGraderConfig(config, taskName, graderName, graderType),
+  test_cases: (config, taskName, graderName, graderType, pointer) =>
+    validateTestCasesGraderConfig(config, taskName, graderName, graderType, pointer),
+  script: (config, taskName, graderName) =>
+    validateBashGraderConfig(config, taskName, graderName)
+};
 
 /**
  * Main validation function
@@ -75,7 +178,8 @@ export function validateTaskJSON(
     issues.push({
       severity: 'CRITICAL',
       path: 'root',
-      message: 'Field "tasks" must be an array'
+      message: 'Field "tasks" must be an array',
+      pointer: '/tasks'
     });
     return buildResult(issues, 0, 0, options);
   }
@@ -83,22 +187,203 @@ export function validateTaskJSON(
   // Validate each task
   taskCount = data.tasks.length;
   data.tasks.forEach((task: any, idx: number) => {
-    const taskIssues = validateTask(task, idx);
+    const taskPointer = toJsonPointer(['tasks', idx]);
+    const taskIssues = locateIssues(validateTask(task, idx), `tasks[${idx}]`, taskPointer);
+    taskIssues.forEach(issue => {
+      issue.pointer ??= taskPointer;
+    });
     issues.push(...taskIssues);
     if (task.graders && Array.isArray(task.graders)) {
       graderCount += task.graders.length;
     }
   });
+  issues.push(...validateDuplicateTasks(data.tasks));
 
   return buildResult(issues, taskCount, graderCount, options);
 }
 
+/**
+ * Flags tasks that repeat an earlier task's name (an error, since names identify
+ * tasks when checking for conflicts) or its exact prompt (a warning).
+ */
+function validateDuplicateTasks(tasks: any[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seenNames = new Map<string, number>();
+  const seenPrompts = new Map<string, number>();
+
+  tasks.forEach((task: any, idx: number) => {
+    if (typeof task !== 'object' || task === null) return;
+
+    if (typeof task.name === 'string' && task.name.trim()) {
+      const name = normalizeTaskName(task.name);
+      const firstIdx = seenNames.get(name);
+      if (firstIdx !== undefined) {
+        issues.push({
+          severity: 'ERROR',
+          path: `tasks[${idx}].name`,
+          message: `Duplicate task name "${task.name}" (same as tasks[${firstIdx}])`,
+          pointer: toJsonPointer(['tasks', idx, 'name'])
+        });
+      } else {
+        seenNames.set(name, idx);
+      }
+    }
+
+    if (typeof task.prompt === 'string' && task.prompt.trim()) {
+      const prompt = normalizeTaskPrompt(task.prompt);
+      const firstIdx = seenPrompts.get(prompt);
+      if (firstIdx !== undefined) {
+        issues.push({
+          severity: 'WARNING',
+          path: `tasks[${idx}].prompt`,
+          message: `Prompt is identical to tasks[${firstIdx}]`,
+          pointer: toJsonPointer(['tasks', idx, 'prompt'])
+        });
+      } else {
+        seenPrompts.set(prompt, idx);
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Applies every safe fix the validator suggests, re-validating after each pass since a
+ * fix can expose issues further down (a corrected field type gets its comparator checked).
+ * Returns the fixed document and the issues whose fixes were applied.
+ */
+export function applySafeFixes(
+  data: any,
+  maxPasses = 5
+): { data: any; applied: ValidationIssue[] } {
+  let current = data;
+  const applied: ValidationIssue[] = [];
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const fixable = validateTaskJSON(current).issues.filter(issue => issue.fix?.safe);
+    if (fixable.length === 0) break;
+    current = applyJsonPatch(current, fixable.flatMap(issue => issue.fix!.patch));
+    applied.push(...fixable);
+  }
+
+  return { data: current, applied };
+}
+
+/**
+ * Gives each issue under `basePath` a JSON Pointer by translating the rest of its
+ * path: ".field" and "[index]" become pointer segments and "(label)"s are skipped.
+ * Issues that already have a pointer are left as they are.
+ */
+function locateIssues(issues: ValidationIssue[], basePath: string, basePointer: string): ValidationIssue[] {
+  issues.forEach(issue => {
+    if (issue.pointer === undefined && issue.path.startsWith(basePath)) {
+      issue.pointer = basePointer + pathSuffixToPointer(issue.path.slice(basePath.length));
+    }
+  });
+  return issues;
+}
+
+function pathSuffixToPointer(suffix: string): string {
+  const segments: Array<string | number> = [];
+  let rest = suffix;
+
+  while (rest) {
+    const field = rest.match(/^\.([A-Za-z_$][\w$]*)/);
+    const index = rest.match(/^\[(\d+)\]/);
+    if (field) {
+      segments.push(field[1]);
+      rest = rest.slice(field[0].length);
+    } else if (index) {
+      segments.push(Number(index[1]));
+      rest = rest.slice(index[0].length);
+    } else if (rest.startsWith(' (')) {
+      let depth = 0;
+      let end = 1;
+      for (; end < rest.length; end++) {
+        if (rest[end] === '(') depth++;
+        else if (rest[end] === ')' && --depth === 0) break;
+      }
+      rest = rest.slice(end + 1);
+    } else {
+      break; // Anything else stays at the most precise pointer found so far
+    }
+  }
+
+  return toJsonPointer(segments);
+}
+
+// Issues keep no position when the source has a syntax error or another shape than `data`
+function addSourcePositions(issues: ValidationIssue[], source: string): void {
+  let sourceMap;
+  try {
+    sourceMap = buildJsonSourceMap(source);
+  } catch {
+    return;
+  }
+
+  issues.forEach(issue => {
+    const position = locatePointer(sourceMap, issue.pointer ?? '');
+    if (position) {
+      issue.line = position.line;
+      issue.column = position.column;
+    }
+  });
+}
+
+function replaceFix(description: string, pointer: string, value: unknown): ValidationFix {
+  return { description, safe: true, patch: [{ op: 'replace', path: pointer, value }] };
+}
+
+function addFix(description: string, pointer: string, value: unknown, safe: boolean): ValidationFix {
+  return { description, safe, patch: [{ op: 'add', path: pointer, value }] };
+}
+
+// "2" or " 0.5 " as a number; anything else (including "") as null
+function parseNumericString(value: unknown): number | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const number = Number(value.trim());
+  return Number.isFinite(number) ? number : null;
+}
+
+function parseBooleanString(value: unknown): boolean | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  return normalized === 'true' ? true : normalized === 'false' ? false : null;
+}
+
+// Common spellings of the schema's field types
+const FIELD_TYPE_ALIASES: Record<string, string> = {
+  integer: 'int',
+  number: 'float',
+  double: 'float',
+  decimal: 'float',
+  str: 'string',
+  text: 'string',
+  boolean: 'bool',
+  array: 'list'
+};
+
+function suggestFieldType(type: unknown): string | null {
+  if (typeof type !== 'string') return null;
+  const normalized = type.trim().toLowerCase();
+  if (VALID_FIELD_TYPES.has(normalized)) return normalized;
+  return FIELD_TYPE_ALIASES[normalized] ?? null;
+}
+
 function buildResult(
   issues: ValidationIssue[],
   taskCount: number,
   graderCount: number,
   options: ValidationOptions
 ): ValidationResult {
+  issues.forEach(issue => {
+    issue.pointer ??= '';
+  });
+  if (options.source !== undefined) {
+    addSourcePositions(issues, options.source);
+  }
+
   const criticalCount = issues.filter(i => i.severity === 'CRITICAL').length;
   const errorCount = issues.filter(i => i.severity === 'ERROR').length;
   const warningCount = issues.filter(i => i.severity === 'WARNING').length;
@@ -163,6 +448,36 @@ function validateTask(task: any, taskIdx: number): ValidationIssue[] {
     });
   }
 
+  // Optional: score_aggregation
+  if ('score_aggregation' in task && !VALID_SCORE_AGGREGATIONS.has(task.score_aggregation)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.score_aggregation`,
+      message: `Invalid score_aggregation "${task.score_aggregation}". Must be one of: ${Array.from(VALID_SCORE_AGGREGATIONS).join(', ')}`
+    });
+  }
+
+  // Optional: assign_to (labeler emails, assigned when the task is created)
+  if ('assign_to' in task) {
+    if (!Array.isArray(task.assign_to)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.assign_to`,
+        message: 'Field "assign_to" must be an array of labeler emails'
+      });
+    } else {
+      task.assign_to.forEach((email: any, emailIdx: number) => {
+        if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+          issues.push({
+            severity: 'ERROR',
+            path: `${path}.assign_to[${emailIdx}]`,
+            message: `Invalid labeler email ${JSON.stringify(email)}`
+          });
+        }
+      });
+    }
+  }
+
   // Required: graders
   if (!('graders' in task)) {
     issues.push({
@@ -192,17 +507,189 @@ function validateTask(task: any, taskIdx: number): ValidationIssue[] {
   }
 
   // Validate each grader
+  const graderIssues: ValidationIssue[] = [];
   task.graders.forEach((grader: any, gIdx: number) => {
-    issues.push(...validateGrader(grader, taskName, gIdx));
+    const graderPointer = toJsonPointer(['tasks', taskIdx, 'graders', gIdx]);
+    const issuesForGrader = locateIssues(
+      validateGrader(grader, taskName, gIdx, graderPointer),
+      `Task '${taskName}' > graders[${gIdx}]`,
+      graderPointer
+    );
+    issuesForGrader.forEach(issue => {
+      issue.pointer ??= graderPointer;
+    });
+    graderIssues.push(...issuesForGrader);
+  });
+  issues.push(...graderIssues);
+
+  // Optional: examples (only run once the graders themselves are well-formed)
+  if ('examples' in task) {
+    const gradersRunnable = !graderIssues.some(i => i.severity === 'CRITICAL' || i.severity === 'ERROR');
+    issues.push(...locateIssues(
+      validateExamples(task, taskName, gradersRunnable),
+      `Task '${taskName}' > examples`,
+      `${toJsonPointer(['tasks', taskIdx])}/examples`
+    ));
+  }
+
+  return issues;
+}
+
+// Scores are floating point percentages; differences below this are rounding noise
+const EXAMPLE_SCORE_EPSILON = 0.01;
+
+/**
+ * Validates a task's examples and grades each one with the task's own graders.
+ * An example the graders score differently than it states is an ERROR, since the
+ * graders would misgrade labelers the same way.
+ */
+function validateExamples(
+  task: any,
+  taskName: string,
+  gradersRunnable: boolean
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const path = `Task '${taskName}' > examples`;
+
+  if (!Array.isArray(task.examples)) {
+    issues.push({
+      severity: 'ERROR',
+      path,
+      message: 'Field "examples" must be an array'
+    });
+    return issues;
+  }
+
+  const hasBashGrader = task.graders.some((g: any) => g.type === 'bash');
+  if (hasBashGrader && task.examples.length > 0) {
+    issues.push({
+      severity: 'INFO',
+      path,
+      message: 'Examples are not executed for tasks with bash graders, since bash graders only run server-side'
+    });
+  }
+
+  task.examples.forEach((example: any, idx: number) => {
+    const examplePath = `${path}[${idx}]${example?.name ? ` (${example.name})` : ''}`;
+
+    if (typeof example !== 'object' || example === null) {
+      issues.push({
+        severity: 'ERROR',
+        path: examplePath,
+        message: 'Example must be an object'
+      });
+      return;
+    }
+
+    const hasResponse = 'response' in example;
+    const hasFormData = 'form_data' in example;
+    if (hasResponse === hasFormData) {
+      issues.push({
+        severity: 'ERROR',
+        path: examplePath,
+        message: 'Example must have exactly one of "response" (string) or "form_data" (object)'
+      });
+      return;
+    }
+    if (hasResponse && typeof example.response !== 'string') {
+      issues.push({
+        severity: 'ERROR',
+        path: `${examplePath}.response`,
+        message: `Field "response" must be a string, got ${typeof example.response}`
+      });
+      return;
+    }
+    if (hasFormData && (typeof example.form_data !== 'object' || example.form_data === null || Array.isArray(example.form_data))) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${examplePath}.form_data`,
+        message: 'Field "form_data" must be an object of field values'
+      });
+      return;
+    }
+
+    const hasExpectedScore = 'expected_score' in example;
+    const hasExpectedPassed = 'expected_passed' in example;
+    if (!hasExpectedScore && !hasExpectedPassed) {
+      issues.push({
+        severity: 'ERROR',
+        path: examplePath,
+        message: 'Example must state "expected_score" and/or "expected_passed"'
+      });
+      return;
+    }
+    if (hasExpectedScore && (typeof example.expected_score !== 'number' || example.expected_score < 0 || example.expected_score > 100)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${examplePath}.expected_score`,
+        message: 'Field "expected_score" must be a percentage between 0 and 100'
+      });
+      return;
+    }
+    if (hasExpectedPassed && typeof example.expected_passed !== 'boolean') {
+      issues.push({
+        severity: 'ERROR',
+        path: `${examplePath}.expected_passed`,
+        message: `Field "expected_passed" must be a boolean, got ${typeof example.expected_passed}`
+      });
+      return;
+    }
+
+    if (!gradersRunnable || hasBashGrader) return;
+
+    const responseText = hasResponse
+      ? example.response
+      : buildResponseText(task.graders, { formData: example.form_data });
+
+    let evaluation;
+    try {
+      const aggregation = VALID_SCORE_AGGREGATIONS.has(task.score_aggregation) ? task.score_aggregation : undefined;
+      evaluation = evaluateResponseSync(responseText, task.graders, aggregation);
+    } catch (error) {
+      issues.push({
+        severity: 'ERROR',
+        path: examplePath,
+        message: `Example could not be graded: ${error instanceof Error ? error.message : String(error)}`
+      });
+      return;
+    }
+
+    const failedFields = evaluation.graderResults.flatMap(result =>
+      Object.entries(result.details)
+        .filter(([, detail]: [string, any]) => typeof detail !== 'object' || detail === null || detail.passed === false)
+        .map(([key, detail]: [string, any]) =>
+          typeof detail === 'object' && detail !== null ? `${result.graderName}/${key}` : `${result.graderName}: ${detail}`)
+    );
+    const failedSummary = failedFields.length > 0 ? ` Failing: ${failedFields.join(', ')}` : '';
+
+    if (hasExpectedScore && Math.abs(evaluation.percentageScore - example.expected_score) > EXAMPLE_SCORE_EPSILON) {
+      issues.push({
+        severity: 'ERROR',
+        path: examplePath,
+        message: `Graders scored this example ${formatPercent(evaluation.percentageScore)}, expected ${formatPercent(example.expected_score)}.${failedSummary}`
+      });
+    }
+    if (hasExpectedPassed && evaluation.passed !== example.expected_passed) {
+      issues.push({
+        severity: 'ERROR',
+        path: examplePath,
+        message: `Graders ${evaluation.passed ? 'passed' : 'failed'} this example, expected it to ${example.expected_passed ? 'pass' : 'fail'}.${failedSummary}`
+      });
+    }
   });
 
   return issues;
 }
 
+function formatPercent(value: number): string {
+  return `${Number(value.toFixed(2))}%`;
+}
+
 function validateGrader(
   grader: any,
   taskName: string,
-  graderIdx: number
+  graderIdx: number,
+  pointer: string
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
   const path = `Task '${taskName}' > graders[${graderIdx}]`;
@@ -228,10 +715,14 @@ function validateGrader(
 
   const graderType = grader.type;
   if (!VALID_GRADER_TYPES.has(graderType)) {
+    const lowerCased = typeof graderType === 'string' ? graderType.trim().toLowerCase() : '';
     issues.push({
       severity: 'ERROR',
       path: `${path}.type`,
-      message: `Invalid grader type "${graderType}". Must be one of: ${Array.from(VALID_GRADER_TYPES).join(', ')}`
+      message: `Invalid grader type "${graderType}". Must be one of: ${Array.from(VALID_GRADER_TYPES).join(', ')}`,
+      ...(VALID_GRADER_TYPES.has(lowerCased) && {
+        fix: replaceFix(`Change type to "${lowerCased}"`, `${pointer}/type`, lowerCased)
+      })
     });
     return issues;
   }
@@ -276,160 +767,568 @@ function validateGrader(
     issues.push({
       severity: 'ERROR',
       path,
-      message: 'Missing required field: weight'
+      message: 'Missing required field: weight',
+      fix: addFix('Add weight 1', `${pointer}/weight`, 1, false)
     });
   } else if (typeof grader.weight !== 'number') {
+    const weight = parseNumericString(grader.weight);
     issues.push({
       severity: 'ERROR',
       path: `${path}.weight`,
-      message: `Field "weight" must be a number, got ${typeof grader.weight}`
+      message: `Field "weight" must be a number, got ${typeof grader.weight}`,
+      ...(weight !== null && { fix: replaceFix(`Change weight to the number ${weight}`, `${pointer}/weight`, weight) })
     });
   }
 
-  // Type-specific validation
-  if (graderType === 'xml') {
-    issues.push(...validateXmlGraderConfig(grader.config, taskName, graderName));
-  }
-  // Bash graders have no enforced config structure
+  // Type-specific validation, chosen by what the grader type reads from its config
+  const validateConfig = GRADER_CONFIG_VALIDATORS[GRADER_TYPE_SPECS[graderType as GraderType].input];
+  issues.push(...locateIssues(
+    validateConfig(grader.config, taskName, graderName, graderType, pointer),
+    `Task '${taskName}' > Grader '${graderName}' (${graderType})`,
+    pointer
+  ));
 
   return issues;
 }
 
-function validateXmlGraderConfig(
+function validateBashGraderConfig(
   config: any,
   taskName: string,
   graderName: string
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
-  const path = `Task '${taskName}' > Grader '${graderName}' (xml)`;
+  const path = `Task '${taskName}' > Grader '${graderName}' (bash)`;
 
-  // Required: structure
-  if (!('structure' in config)) {
+  // Required: script
+  if (!('script' in config)) {
     issues.push({
       severity: 'CRITICAL',
       path: `${path}.config`,
-      message: 'Missing required field: structure'
+      message: 'Missing required field: script'
+    });
+  } else if (typeof config.script !== 'string' || !config.script.trim()) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.script`,
+      message: 'Field "script" must be non-empty string'
     });
-    return issues;
   }
 
-  if (!Array.isArray(config.structure)) {
+  // Optional: resource limits
+  ['timeout_ms', 'memory_limit_mb'].forEach(field => {
+    if (field in config && (typeof config[field] !== 'number' || config[field] <= 0)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.${field}`,
+        message: `Field "${field}" must be a positive number`
+      });
+    }
+  });
+
+  return issues;
+}
+
+function validateExpectedGraderConfig(
+  config: any,
+  taskName: string,
+  graderName: string,
+  graderType: GraderType
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const path = `Task '${taskName}' > Grader '${graderName}' (${graderType})`;
+  const expectedType = GRADER_TYPE_SPECS[graderType].expectedValueType;
+
+  // Required: expected
+  if (!('expected' in config)) {
     issues.push({
       severity: 'CRITICAL',
-      path: `${path}.config.structure`,
-      message: 'Field "structure" must be an array'
+      path: `${path}.config`,
+      message: 'Missing required field: expected'
     });
-    return issues;
-  }
-
-  if (config.structure.length === 0) {
+  } else if (expectedType && typeof config.expected !== expectedType) {
     issues.push({
       severity: 'ERROR',
-      path: `${path}.config.structure`,
-      message: 'Field "structure" must be non-empty array'
+      path: `${path}.config.expected`,
+      message: `Field "expected" must be a ${expectedType}, got ${typeof config.expected}`
     });
-    return issues;
   }
 
-  // Optional: binary_mode
-  if (!('binary_mode' in config)) {
+  // Optional: normalization (text graders also accept a fuzzy threshold)
+  issues.push(...validateNormalization(config, path, graderType === 'text'));
+  if (graderType !== 'text' && 'fuzzy_threshold' in config) {
     issues.push({
       severity: 'WARNING',
-      path: `${path}.config`,
-      message: 'Missing recommended field: binary_mode (will default to false)'
-    });
-  } else if (typeof config.binary_mode !== 'boolean') {
-    issues.push({
-      severity: 'ERROR',
-      path: `${path}.config.binary_mode`,
-      message: 'Field "binary_mode" must be a boolean'
+      path: `${path}.config.fuzzy_threshold`,
+      message: `Grader type "${graderType}" ignores "fuzzy_threshold"`
     });
   }
 
-  // Validate structure items
-  config.structure.forEach((item: any, idx: number) => {
-    issues.push(...validateXmlStructureItem(item, taskName, graderName, `structure[${idx}]`));
-  });
-
   return issues;
 }
 
-function validateXmlStructureItem(
-  item: any,
+function validateTestCasesGraderConfig(
+  config: any,
   taskName: string,
   graderName: string,
-  itemPath: string
+  graderType: GraderType,
+  pointer: string
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
-  const path = `Task '${taskName}' > Grader '${graderName}' > ${itemPath}`;
+  const path = `Task '${taskName}' > Grader '${graderName}' (${graderType})`;
 
-  if (typeof item !== 'object' || item === null) {
+  // Required: test_cases
+  if (!('test_cases' in config)) {
     issues.push({
       severity: 'CRITICAL',
-      path,
-      message: 'Structure item must be an object'
+      path: `${path}.config`,
+      message: 'Missing required field: test_cases'
     });
     return issues;
   }
 
-  const itemName = item.name || `item at ${itemPath}`;
-
-  // Required: id
-  if (!('id' in item)) {
-    issues.push({
-      severity: 'CRITICAL',
-      path: `${path} ('${itemName}')`,
-      message: 'Missing required field: id'
-    });
-  } else if (typeof item.id !== 'string') {
+  if (!Array.isArray(config.test_cases) || config.test_cases.length === 0) {
     issues.push({
       severity: 'ERROR',
-      path: `${path}.id`,
-      message: 'Field "id" must be a string'
+      path: `${path}.config.test_cases`,
+      message: 'Field "test_cases" must be non-empty array'
     });
+    return issues;
   }
 
-  // Required: name
-  if (!('name' in item)) {
-    issues.push({
-      severity: 'CRITICAL',
-      path,
-      message: 'Missing required field: name'
-    });
-  } else if (typeof item.name !== 'string') {
-    issues.push({
-      severity: 'ERROR',
-      path: `${path}.name`,
-      message: 'Field "name" must be a string'
-    });
-  }
+  config.test_cases.forEach((testCase: any, idx: number) => {
+    const casePath = `${path} > test_cases[${idx}]`;
+    const caseIssuesStart = issues.length;
+    if (typeof testCase !== 'object' || testCase === null) {
+      issues.push({
+        severity: 'CRITICAL',
+        path: casePath,
+        message: 'Test case must be an object',
+        pointer: `${pointer}/config/test_cases/${idx}`
+      });
+      return;
+    }
 
-  // Required: type
-  let itemType: string | null = null;
-  if (!('type' in item)) {
-    issues.push({
-      severity: 'CRITICAL',
-      path: `${path} ('${itemName}')`,
-      message: 'Missing required field: type'
-    });
-  } else {
-    itemType = item.type;
-    if (itemType && !VALID_FIELD_TYPES.has(itemType)) {
+    if (typeof testCase.id !== 'string' || !testCase.id.trim()) {
       issues.push({
         severity: 'ERROR',
-        path: `${path}.type`,
-        message: `Invalid type "${itemType}". Must be one of: ${Array.from(VALID_FIELD_TYPES).join(', ')}`
+        path: `${casePath}.id`,
+        message: 'Field "id" must be non-empty string'
       });
-      itemType = null;
     }
-  }
 
-  // Required: children
-  if (!('children' in item)) {
-    issues.push({
+    if (!('expected_value' in testCase)) {
+      issues.push({
+        severity: 'WARNING',
+        path: casePath,
+        message: 'Missing recommended field: expected_value (test case can never pass)'
+      });
+    } else if (graderType === 'unit' && !parseQuantity(String(testCase.expected_value))) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${casePath}.expected_value`,
+        message: `Expected value ${JSON.stringify(testCase.expected_value)} is not a number with a known unit (e.g. "5 km", "$1.2M", "12.5%")`
+      });
+    }
+
+    if (graderType === 'unit') {
+      issues.push(...validateUnitTolerance(testCase, casePath));
+    }
+
+    // Optional: alternatives
+    if ('alternatives' in testCase) {
+      issues.push(...validateAlternatives(testCase.alternatives, casePath, (alternative, altPath) => {
+        const altIssues: ValidationIssue[] = [];
+        if (graderType === 'unit') {
+          if ('comparator' in alternative) {
+            altIssues.push({
+              severity: 'WARNING',
+              path: `${altPath}.comparator`,
+              message: 'Unit grader alternatives are compared as quantities; "comparator" is ignored'
+            });
+          }
+          if (!parseQuantity(String(alternative.expected))) {
+            altIssues.push({
+              severity: 'ERROR',
+              path: `${altPath}.expected`,
+              message: `Expected value ${JSON.stringify(alternative.expected)} is not a number with a known unit`
+            });
+          }
+        } else if (alternative.comparator !== undefined) {
+          altIssues.push(...(typeof alternative.comparator === 'object' && alternative.comparator !== null
+            ? validateComparator(alternative.comparator, 'string', altPath, testCase.id)
+            : [{ severity: 'ERROR' as const, path: `${altPath}.comparator`, message: 'Field "comparator" must be an object' }]));
+        }
+        return altIssues;
+      }));
+    }
+
+    locateIssues(issues.slice(caseIssuesStart), casePath, `${pointer}/config/test_cases/${idx}`);
+  });
+
+  if (graderType === 'unit') {
+    issues.push(...validateUnitTolerance(config, `${path}.config`));
+    issues.push(...validateNormalization(config, path, false));
+  }
+
+  return issues;
+}
+
+/**
+ * Validates the optional tolerance/tolerance_type of a unit grader or one of its test cases
+ */
+function validateUnitTolerance(container: any, path: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if ('tolerance' in container && (typeof container.tolerance !== 'number' || container.tolerance < 0)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.tolerance`,
+      message: 'Field "tolerance" must be a non-negative number'
+    });
+  }
+
+  if ('tolerance_type' in container && !VALID_TOLERANCE_TYPES.has(container.tolerance_type)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.tolerance_type`,
+      message: `Invalid tolerance_type "${container.tolerance_type}". Must be one of: ${Array.from(VALID_TOLERANCE_TYPES).join(', ')}`
+    });
+  }
+
+  return issues;
+}
+
+function validateStructureGraderConfig(
+  config: any,
+  taskName: string,
+  graderName: string,
+  graderType: GraderType,
+  pointer: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const path = `Task '${taskName}' > Grader '${graderName}' (${graderType})`;
+
+  // Required: structure
+  if (!('structure' in config)) {
+    issues.push({
+      severity: 'CRITICAL',
+      path: `${path}.config`,
+      message: 'Missing required field: structure'
+    });
+    return issues;
+  }
+
+  if (!Array.isArray(config.structure)) {
+    issues.push({
+      severity: 'CRITICAL',
+      path: `${path}.config.structure`,
+      message: 'Field "structure" must be an array'
+    });
+    return issues;
+  }
+
+  if (config.structure.length === 0) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.structure`,
+      message: 'Field "structure" must be non-empty array'
+    });
+    return issues;
+  }
+
+  // Optional: binary_mode
+  if (!('binary_mode' in config)) {
+    issues.push({
+      severity: 'WARNING',
+      path: `${path}.config`,
+      message: 'Missing recommended field: binary_mode (will default to false)',
+      fix: addFix('Add binary_mode: false', `${pointer}/config/binary_mode`, false, true)
+    });
+  } else if (typeof config.binary_mode !== 'boolean') {
+    const binaryMode = parseBooleanString(config.binary_mode);
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.binary_mode`,
+      message: 'Field "binary_mode" must be a boolean',
+      ...(binaryMode !== null && {
+        fix: replaceFix(`Change binary_mode to ${binaryMode}`, `${pointer}/config/binary_mode`, binaryMode)
+      })
+    });
+  }
+
+  // Validate structure items
+  config.structure.forEach((item: any, idx: number) => {
+    issues.push(...validateXmlStructureItem(
+      item,
+      taskName,
+      graderName,
+      `structure[${idx}]`,
+      `${pointer}/config/structure/${idx}`
+    ));
+  });
+
+  // Optional: score_floor
+  if ('score_floor' in config) {
+    if (typeof config.score_floor !== 'number' || !Number.isFinite(config.score_floor)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.score_floor`,
+        message: 'Field "score_floor" must be a number'
+      });
+    } else if (config.score_floor < 0) {
+      issues.push({
+        severity: 'WARNING',
+        path: `${path}.config.score_floor`,
+        message: `A score_floor of ${config.score_floor} lets penalties push submissions below a score of zero`
+      });
+    }
+  }
+
+  // Optional: cross-field rules
+  if ('rules' in config) {
+    issues.push(...validateGraderRules(config.rules, config.structure, path));
+  }
+
+  return issues;
+}
+
+/**
+ * Validates cross-field rules: each needs a unique id, a weight and a formula whose
+ * field references name numeric structure fields
+ */
+function validateGraderRules(
+  rules: any,
+  structure: any[],
+  path: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!Array.isArray(rules)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.rules`,
+      message: 'Field "rules" must be an array'
+    });
+    return issues;
+  }
+
+  // Structure items are validated separately; only well-formed ones can be referenced
+  const fieldTypes = new Map<string, unknown>();
+  try {
+    structureInputPaths(structure.filter(item => typeof item === 'object' && item !== null && typeof item.name === 'string'))
+      .forEach(({ path: fieldPath, field }) => fieldTypes.set(fieldPath, field.type));
+  } catch {
+    // Malformed children are reported by the structure checks
+  }
+
+  const seenIds = new Set<string>();
+  rules.forEach((rule: any, idx: number) => {
+    const rulePath = `${path}.config.rules[${idx}]`;
+
+    if (typeof rule !== 'object' || rule === null) {
+      issues.push({
+        severity: 'ERROR',
+        path: rulePath,
+        message: 'Rule must be an object'
+      });
+      return;
+    }
+
+    if (typeof rule.id !== 'string' || rule.id === '') {
+      issues.push({
+        severity: 'ERROR',
+        path: `${rulePath}.id`,
+        message: 'Field "id" must be a non-empty string'
+      });
+    } else if (seenIds.has(rule.id)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${rulePath}.id`,
+        message: `Duplicate rule id "${rule.id}"`
+      });
+    } else {
+      seenIds.add(rule.id);
+    }
+
+    if (typeof rule.weight !== 'number' || rule.weight < 0) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${rulePath}.weight`,
+        message: 'Field "weight" must be a non-negative number'
+      });
+    }
+
+    if ('tolerance' in rule && (typeof rule.tolerance !== 'number' || rule.tolerance < 0)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${rulePath}.tolerance`,
+        message: 'Field "tolerance" must be a non-negative number'
+      });
+    }
+    if ('tolerance_type' in rule && !VALID_TOLERANCE_TYPES.has(rule.tolerance_type)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${rulePath}.tolerance_type`,
+        message: `Field "tolerance_type" must be "absolute" or "percentage", got "${rule.tolerance_type}"`
+      });
+    }
+
+    if (typeof rule.formula !== 'string') {
+      issues.push({
+        severity: 'ERROR',
+        path: `${rulePath}.formula`,
+        message: 'Field "formula" must be a string such as "total = part_a + part_b"'
+      });
+      return;
+    }
+
+    let fields: string[];
+    try {
+      fields = parseRule(rule.formula).fields;
+    } catch (e) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${rulePath}.formula`,
+        message: `Invalid formula: ${(e as Error).message}`
+      });
+      return;
+    }
+
+    if (fields.length === 0) {
+      issues.push({
+        severity: 'WARNING',
+        path: `${rulePath}.formula`,
+        message: 'Formula does not reference any field, so it always has the same result'
+      });
+    }
+
+    fields.forEach(field => {
+      if (!fieldTypes.has(field)) {
+        issues.push({
+          severity: 'ERROR',
+          path: `${rulePath}.formula`,
+          message: `Formula references unknown field "${field}". Use a structure field path (nested paths in braces, e.g. {balance/end})`
+        });
+      } else if (!['int', 'float', 'string'].includes(fieldTypes.get(field) as string)) {
+        issues.push({
+          severity: 'ERROR',
+          path: `${rulePath}.formula`,
+          message: `Formula references "${field}" of type "${fieldTypes.get(field)}"; rules only compare numeric answers`
+        });
+      }
+    });
+  });
+
+  return issues;
+}
+
+function validateXmlStructureItem(
+  item: any,
+  taskName: string,
+  graderName: string,
+  itemPath: string,
+  pointer: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const path = `Task '${taskName}' > Grader '${graderName}' > ${itemPath}`;
+
+  if (typeof item !== 'object' || item === null) {
+    issues.push({
+      severity: 'CRITICAL',
+      path,
+      message: 'Structure item must be an object',
+      pointer
+    });
+    return issues;
+  }
+
+  const itemName = item.name || `item at ${itemPath}`;
+
+  // Required: id
+  if (!('id' in item)) {
+    issues.push({
+      severity: 'CRITICAL',
+      path: `${path} ('${itemName}')`,
+      message: 'Missing required field: id'
+    });
+  } else if (typeof item.id !== 'string') {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.id`,
+      message: 'Field "id" must be a string'
+    });
+  }
+
+  // Required: name
+  if (!('name' in item)) {
+    issues.push({
+      severity: 'CRITICAL',
+      path,
+      message: 'Missing required field: name'
+    });
+  } else if (typeof item.name !== 'string') {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.name`,
+      message: 'Field "name" must be a string'
+    });
+  }
+
+  // Required: type
+  let itemType: string | null = null;
+  if (!('type' in item)) {
+    issues.push({
+      severity: 'CRITICAL',
+      path: `${path} ('${itemName}')`,
+      message: 'Missing required field: type'
+    });
+  } else {
+    itemType = item.type;
+    if (itemType === 'boolean') {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.type`,
+        message: 'Invalid type "boolean". Use "bool" for boolean fields',
+        fix: replaceFix('Change type to "bool"', `${pointer}/type`, 'bool')
+      });
+      itemType = null;
+    } else if (itemType && !VALID_FIELD_TYPES.has(itemType)) {
+      const suggested = suggestFieldType(itemType);
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.type`,
+        message: `Invalid type "${itemType}". Must be one of: ${Array.from(VALID_FIELD_TYPES).join(', ')}`,
+        ...(suggested && { fix: replaceFix(`Change type to "${suggested}"`, `${pointer}/type`, suggested) })
+      });
+      itemType = null;
+    }
+  }
+
+  // Optional: item_type, for list fields
+  const listItemType = typeof item.item_type === 'string' ? item.item_type : 'string';
+  if ('item_type' in item && itemType) {
+    if (itemType !== 'list') {
+      issues.push({
+        severity: 'WARNING',
+        path: `${path}.item_type`,
+        message: `Field "item_type" only applies to list fields and is ignored for type "${itemType}"`
+      });
+    } else if (!VALID_LIST_ITEM_TYPES.has(item.item_type)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.item_type`,
+        message: `Invalid item_type ${JSON.stringify(item.item_type)}. Must be one of: ${LIST_ITEM_TYPES.join(', ')}`
+      });
+    }
+  }
+
+  // Required: children
+  if (!('children' in item)) {
+    issues.push({
       severity: 'CRITICAL',
       path: `${path} ('${itemName}')`,
-      message: 'Missing required field: children'
+      message: 'Missing required field: children',
+      fix: addFix('Add an empty children list', `${pointer}/children`, [], true)
     });
   } else if (!Array.isArray(item.children)) {
     issues.push({
@@ -445,24 +1344,31 @@ function validateXmlStructureItem(
           child,
           taskName,
           graderName,
-          `${itemPath}.children[${childIdx}]`
+          `${itemPath}.children[${childIdx}]`,
+          `${pointer}/children/${childIdx}`
         )
       );
     });
   }
 
-  // Required: isExpanded
+  // Required: isExpanded (editor state only, so any value grades the same)
   if (!('isExpanded' in item)) {
     issues.push({
       severity: 'ERROR',
       path: `${path} ('${itemName}')`,
-      message: 'Missing required field: isExpanded'
+      message: 'Missing required field: isExpanded',
+      fix: addFix('Add isExpanded: false', `${pointer}/isExpanded`, false, true)
     });
   } else if (typeof item.isExpanded !== 'boolean') {
     issues.push({
       severity: 'ERROR',
       path: `${path}.isExpanded`,
-      message: 'Field "isExpanded" must be a boolean'
+      message: 'Field "isExpanded" must be a boolean',
+      fix: replaceFix(
+        `Change isExpanded to ${parseBooleanString(item.isExpanded) ?? false}`,
+        `${pointer}/isExpanded`,
+        parseBooleanString(item.isExpanded) ?? false
+      )
     });
   }
 
@@ -471,13 +1377,16 @@ function validateXmlStructureItem(
     issues.push({
       severity: 'ERROR',
       path: `${path} ('${itemName}')`,
-      message: 'Missing required field: weight'
+      message: 'Missing required field: weight',
+      fix: addFix('Add weight 1', `${pointer}/weight`, 1, false)
     });
   } else if (typeof item.weight === 'string') {
+    const weight = parseNumericString(item.weight);
     issues.push({
       severity: 'ERROR',
       path: `${path}.weight`,
-      message: `Field "weight" is string "${item.weight}", should be number`
+      message: `Field "weight" is string "${item.weight}", should be number`,
+      ...(weight !== null && { fix: replaceFix(`Change weight to the number ${weight}`, `${pointer}/weight`, weight) })
     });
   } else if (typeof item.weight !== 'number') {
     issues.push({
@@ -487,6 +1396,38 @@ function validateXmlStructureItem(
     });
   }
 
+  // Optional: penalty and allow_abstain
+  if ('penalty' in item) {
+    if (typeof item.penalty !== 'number' || item.penalty < 0) {
+      const penalty = parseNumericString(item.penalty);
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.penalty`,
+        message: 'Field "penalty" must be a non-negative number (points deducted for a wrong answer)',
+        ...(penalty !== null && penalty >= 0 && {
+          fix: replaceFix(`Change penalty to the number ${penalty}`, `${pointer}/penalty`, penalty)
+        })
+      });
+    } else if (item.penalty > 0 && item.allow_abstain !== true) {
+      issues.push({
+        severity: 'WARNING',
+        path: `${path}.penalty`,
+        message: 'Field has a penalty but no allow_abstain, so labelers who do not know the answer must guess and risk it'
+      });
+    }
+  }
+  if ('allow_abstain' in item && typeof item.allow_abstain !== 'boolean') {
+    const allowAbstain = parseBooleanString(item.allow_abstain);
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.allow_abstain`,
+      message: 'Field "allow_abstain" must be a boolean',
+      ...(allowAbstain !== null && {
+        fix: replaceFix(`Change allow_abstain to ${allowAbstain}`, `${pointer}/allow_abstain`, allowAbstain)
+      })
+    });
+  }
+
   // Optional: comparator
   if ('comparator' in item && itemType) {
     if (typeof item.comparator !== 'object' || item.comparator === null) {
@@ -496,10 +1437,96 @@ function validateXmlStructureItem(
         message: 'Field "comparator" must be an object'
       });
     } else {
-      issues.push(...validateComparator(item.comparator, itemType, path, itemName));
+      issues.push(...validateComparator(item.comparator, itemType, path, itemName, listItemType));
     }
   }
 
+  // Optional: alternatives
+  if ('alternatives' in item && itemType) {
+    issues.push(...validateAlternatives(item.alternatives, path, (alternative, altPath) => {
+      if (alternative.comparator !== undefined) {
+        return typeof alternative.comparator === 'object' && alternative.comparator !== null
+          ? validateComparator(alternative.comparator, itemType!, altPath, itemName, listItemType)
+          : [{ severity: 'ERROR', path: `${altPath}.comparator`, message: 'Field "comparator" must be an object' }];
+      }
+      // Checked with the field's comparator, so its expected value must suit that comparator
+      const base = typeof item.comparator === 'object' && item.comparator !== null && VALID_COMPARATOR_TYPES.has(item.comparator.type)
+        ? item.comparator
+        : { type: 'equals', config: {} };
+      return COMPARATOR_VALIDATORS[base.type as ComparatorType](
+        { ...base.config, substring: undefined, pattern: undefined, expected: alternative.expected },
+        itemType!,
+        altPath,
+        itemName,
+        listItemType
+      );
+    }));
+  }
+
+  return locateIssues(issues, path, pointer);
+}
+
+/**
+ * Validates a list of alternative answers; `validateAnswer` checks each one's
+ * expected value or comparator against the field or test case it belongs to
+ */
+function validateAlternatives(
+  alternatives: any,
+  path: string,
+  validateAnswer: (alternative: any, altPath: string) => ValidationIssue[]
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!Array.isArray(alternatives)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.alternatives`,
+      message: 'Field "alternatives" must be an array'
+    });
+    return issues;
+  }
+
+  alternatives.forEach((alternative: any, idx: number) => {
+    const altPath = `${path}.alternatives[${idx}]`;
+
+    if (typeof alternative !== 'object' || alternative === null) {
+      issues.push({
+        severity: 'ERROR',
+        path: altPath,
+        message: 'Alternative must be an object'
+      });
+      return;
+    }
+
+    if (!('expected' in alternative) && !('comparator' in alternative)) {
+      issues.push({
+        severity: 'ERROR',
+        path: altPath,
+        message: 'Alternative must have "expected" or its own "comparator"'
+      });
+      return;
+    }
+
+    if ('credit' in alternative &&
+        (typeof alternative.credit !== 'number' || alternative.credit <= 0 || alternative.credit > 1)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${altPath}.credit`,
+        message: 'Field "credit" must be a number greater than 0 and at most 1'
+      });
+    }
+
+    if ('label' in alternative && typeof alternative.label !== 'string') {
+      issues.push({
+        severity: 'ERROR',
+        path: `${altPath}.label`,
+        message: 'Field "label" must be a string'
+      });
+    }
+
+    issues.push(...validateAnswer(alternative, altPath));
+  });
+
   return issues;
 }
 
@@ -507,7 +1534,8 @@ function validateComparator(
   comparator: any,
   itemType: string,
   path: string,
-  itemName: string
+  itemName: string,
+  listItemType = 'string'
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
   const compPath = `${path}.comparator`;
@@ -552,29 +1580,133 @@ function validateComparator(
     return issues;
   }
 
+  // List comparators and list fields only go together (equals and length handle both)
+  if (LIST_COMPARATORS.includes(compType) && itemType !== 'list') {
+    issues.push({
+      severity: 'ERROR',
+      path: `${compPath}.type`,
+      message: `Comparator "${compType}" only applies to list fields, but the item type is "${itemType}"`
+    });
+    return issues;
+  }
+  if (itemType === 'list' && !LIST_FIELD_COMPARATORS.includes(compType)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${compPath}.type`,
+      message: `Comparator "${compType}" does not apply to list fields. Use one of: ${LIST_FIELD_COMPARATORS.join(', ')}`
+    });
+    return issues;
+  }
+
+  if (itemType === 'date' && !DATE_FIELD_COMPARATORS.includes(compType)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${compPath}.type`,
+      message: `Comparator "${compType}" does not apply to date fields. Use one of: ${DATE_FIELD_COMPARATORS.join(', ')}`
+    });
+    return issues;
+  }
+  if (itemType !== 'date') {
+    ['granularity', 'day_first'].filter(key => key in config).forEach(key => {
+      issues.push({
+        severity: 'WARNING',
+        path: `${compPath}.config.${key}`,
+        message: `Field "${key}" only applies to date fields and is ignored for type "${itemType}"`
+      });
+    });
+  }
+
   // Type-specific validation
-  switch (compType) {
-    case 'equals':
-      issues.push(...validateEqualsComparator(config, itemType, compPath, itemName));
-      break;
-    case 'tolerance':
-      issues.push(...validateToleranceComparator(config, itemType, compPath, itemName));
-      break;
-    case 'range':
-      issues.push(...validateRangeComparator(config, compPath, itemName));
-      break;
-    case 'contains':
-      issues.push(...validateContainsComparator(config, compPath, itemName));
-      break;
-    case 'regex':
-      issues.push(...validateRegexComparator(config, compPath, itemName));
-      break;
-    case 'in_list':
-      issues.push(...validateInListComparator(config, compPath, itemName));
-      break;
-    case 'length':
-      issues.push(...validateLengthComparator(config, compPath, itemName));
-      break;
+  issues.push(...COMPARATOR_VALIDATORS[compType as ComparatorType](config, itemType, compPath, itemName, listItemType));
+
+  // Optional: normalization, which only some comparators read
+  const normalizes = NORMALIZING_COMPARATORS.includes(compType);
+  if (!normalizes && 'normalize' in config) {
+    issues.push({
+      severity: 'WARNING',
+      path: `${compPath}.config.normalize`,
+      message: `Comparator "${compType}" ignores "normalize". Supported by: ${NORMALIZING_COMPARATORS.join(', ')}`
+    });
+  }
+  if (!FUZZY_COMPARATORS.includes(compType) && 'fuzzy_threshold' in config) {
+    issues.push({
+      severity: 'WARNING',
+      path: `${compPath}.config.fuzzy_threshold`,
+      message: `Comparator "${compType}" ignores "fuzzy_threshold". Supported by: ${FUZZY_COMPARATORS.join(', ')}`
+    });
+  }
+  if (normalizes) {
+    issues.push(...validateNormalization(config, compPath, FUZZY_COMPARATORS.includes(compType)));
+  }
+
+  return issues;
+}
+
+/**
+ * Validates the optional "normalize" object and "fuzzy_threshold" on a config
+ */
+function validateNormalization(
+  config: any,
+  path: string,
+  allowsFuzzy: boolean
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if ('normalize' in config) {
+    const normalize = config.normalize;
+    if (typeof normalize !== 'object' || normalize === null || Array.isArray(normalize)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.normalize`,
+        message: 'Field "normalize" must be an object'
+      });
+    } else {
+      Object.keys(normalize).forEach(key => {
+        if (!VALID_NORMALIZE_KEYS.has(key)) {
+          issues.push({
+            severity: 'WARNING',
+            path: `${path}.config.normalize.${key}`,
+            message: `Unknown normalization option "${key}" is ignored. Valid options: ${Array.from(VALID_NORMALIZE_KEYS).join(', ')}`
+          });
+        }
+      });
+
+      NORMALIZATION_STEPS.forEach(step => {
+        if (step in normalize && typeof normalize[step] !== 'boolean') {
+          issues.push({
+            severity: 'ERROR',
+            path: `${path}.config.normalize.${step}`,
+            message: `Field "${step}" must be a boolean`
+          });
+        }
+      });
+
+      if ('number_locale' in normalize &&
+          (typeof normalize.number_locale !== 'string' || !isSupportedLocale(normalize.number_locale))) {
+        issues.push({
+          severity: 'ERROR',
+          path: `${path}.config.normalize.number_locale`,
+          message: `Field "number_locale" must be a supported locale tag (e.g. "en-US", "de-DE"), got ${JSON.stringify(normalize.number_locale)}`
+        });
+      }
+    }
+  }
+
+  if ('fuzzy_threshold' in config && allowsFuzzy) {
+    const threshold = config.fuzzy_threshold;
+    if (typeof threshold !== 'number' || threshold <= 0 || threshold > 1) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.fuzzy_threshold`,
+        message: 'Field "fuzzy_threshold" must be a number greater than 0 and at most 1'
+      });
+    } else if (threshold < 0.5) {
+      issues.push({
+        severity: 'WARNING',
+        path: `${path}.config.fuzzy_threshold`,
+        message: `A fuzzy_threshold of ${threshold} accepts answers that share less than half their characters`
+      });
+    }
   }
 
   return issues;
@@ -600,37 +1732,15 @@ function validateEqualsComparator(
   const expected = config.expected;
   const expectedType = typeof expected;
 
-  // Check type matching
-  if (itemType === 'int') {
-    if (expectedType !== 'number' || !Number.isInteger(expected)) {
-      issues.push({
-        severity: 'ERROR',
-        path: `${path}.config.expected`,
-        message: `Item type is "int" but expected is ${expectedType}. Must be integer number.`
-      });
-    }
-  } else if (itemType === 'float') {
-    if (expectedType !== 'number') {
-      issues.push({
-        severity: 'ERROR',
-        path: `${path}.config.expected`,
-        message: `Item type is "float" but expected is ${expectedType}. Must be number.`
-      });
-    }
-  } else if (itemType === 'string') {
-    if (expectedType !== 'string') {
+  // Check type matching against the field's value type from the schema
+  if (isFieldType(itemType)) {
+    const valueType = FIELD_VALUE_TYPES[itemType];
+    const isInteger = itemType !== 'int' || Number.isInteger(expected);
+    if (expectedType !== valueType || !isInteger) {
       issues.push({
         severity: 'ERROR',
         path: `${path}.config.expected`,
-        message: `Item type is "string" but expected is ${expectedType}. Must be string.`
-      });
-    }
-  } else if (itemType === 'bool') {
-    if (expectedType !== 'boolean') {
-      issues.push({
-        severity: 'ERROR',
-        path: `${path}.config.expected`,
-        message: `Item type is "bool" but expected is ${expectedType}. Must be boolean.`
+        message: `Item type is "${itemType}" but expected is ${expectedType}. Must be ${itemType === 'int' ? 'integer number' : valueType}.`
       });
     }
   }
@@ -700,6 +1810,174 @@ function validateToleranceComparator(
   return issues;
 }
 
+function validateExpressionComparator(
+  config: any,
+  itemType: string,
+  path: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (itemType === 'bool') {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.type`,
+      message: 'Comparator "expression" does not apply to bool fields'
+    });
+    return issues;
+  }
+
+  // Expected may itself be an expression such as "1/3"
+  if (!('expected' in config)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config`,
+      message: 'Missing required field: expected'
+    });
+  } else if (typeof config.expected === 'string') {
+    try {
+      evaluateExpression(config.expected);
+    } catch (error) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.expected`,
+        message: `Field "expected" is not a valid expression: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  } else if (typeof config.expected !== 'number') {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.expected`,
+      message: `Field "expected" must be a number or an expression string, got ${typeof config.expected}`
+    });
+  }
+
+  if ('tolerance' in config && (typeof config.tolerance !== 'number' || config.tolerance < 0)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.tolerance`,
+      message: 'Field "tolerance" must be a non-negative number'
+    });
+  }
+  if ('type' in config && !VALID_TOLERANCE_TYPES.has(config.type)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.type`,
+      message: `Field "type" must be "absolute" or "percentage", got "${config.type}"`
+    });
+  }
+
+  ['significant_figures', 'min_significant_figures'].forEach(key => {
+    if (key in config && (!Number.isInteger(config[key]) || config[key] < 1 || config[key] > 21)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.${key}`,
+        message: `Field "${key}" must be an integer from 1 to 21`
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates equals/range/tolerance on a date field: dates must parse (at least as
+ * precisely as the granularity) and tolerance is a number of days
+ */
+function validateDateComparator(
+  config: any,
+  compType: 'equals' | 'range' | 'tolerance',
+  path: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if ('granularity' in config && !VALID_DATE_GRANULARITIES.has(config.granularity)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.granularity`,
+      message: `Invalid granularity ${JSON.stringify(config.granularity)}. Must be one of: ${DATE_GRANULARITIES.join(', ')}`
+    });
+  }
+  if ('day_first' in config && typeof config.day_first !== 'boolean') {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.day_first`,
+      message: 'Field "day_first" must be a boolean'
+    });
+  }
+
+  const granularity = VALID_DATE_GRANULARITIES.has(config.granularity) && compType !== 'tolerance'
+    ? config.granularity
+    : 'day';
+  const checkDate = (key: string) => {
+    const value = config[key];
+    const parsed = typeof value === 'string' ? parseDate(value, config.day_first === true) : null;
+    if (!parsed) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.${key}`,
+        message: `Field "${key}" must be a date such as "2024-03-01", got ${JSON.stringify(value)}`
+      });
+    } else if (!isPreciseEnough(parsed, granularity)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.${key}`,
+        message: `Date "${value}" does not state the ${granularity}, which the comparator compares`
+      });
+    }
+    return parsed;
+  };
+
+  if (compType === 'range') {
+    if (!('min' in config) && !('max' in config)) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config`,
+        message: 'Must have at least one of: min, max'
+      });
+      return issues;
+    }
+    const min = 'min' in config ? checkDate('min') : null;
+    const max = 'max' in config ? checkDate('max') : null;
+    if (min && max && min.timestamp > max.timestamp) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config`,
+        message: `min (${config.min}) must not be after max (${config.max})`
+      });
+    }
+    return issues;
+  }
+
+  if (!('expected' in config)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config`,
+      message: 'Missing required field: expected'
+    });
+  } else {
+    checkDate('expected');
+  }
+
+  if (compType === 'tolerance') {
+    if (typeof config.tolerance !== 'number' || config.tolerance < 0) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.tolerance`,
+        message: 'Field "tolerance" must be a non-negative number of days'
+      });
+    }
+    if (config.type === 'percentage') {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.type`,
+        message: 'Date tolerances are in days; "percentage" does not apply'
+      });
+    }
+  }
+
+  return issues;
+}
+
 function validateRangeComparator(
   config: any,
   path: string,
@@ -805,15 +2083,40 @@ function validateRegexComparator(
     return issues;
   }
 
+  let flags = '';
+  if ('flags' in config) {
+    const invalidFlags = typeof config.flags === 'string' ? findInvalidFlags(config.flags) : 'must be a string';
+    if (invalidFlags) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.flags`,
+        message: `Invalid regex flags: ${invalidFlags}`
+      });
+    } else {
+      flags = config.flags;
+    }
+  }
+
   // Test regex compilation
   try {
-    new RegExp(pattern);
+    new RegExp(pattern, flags);
   } catch (e) {
     issues.push({
       severity: 'ERROR',
       path: `${path}.config.pattern`,
       message: `Invalid regex pattern: ${(e as Error).message}`
     });
+    return issues;
+  }
+
+  // The grader refuses these at runtime, so the field could never pass
+  const danger = findDangerousPattern(pattern, flags);
+  if (danger) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.pattern`,
+      message: `Regex pattern risks catastrophic backtracking: ${danger}`
+    });
   }
 
   return issues;
@@ -855,6 +2158,95 @@ function validateInListComparator(
   return issues;
 }
 
+/**
+ * Checks the expected entries of a list comparator against the field's item_type
+ */
+function validateListExpected(
+  config: any,
+  listItemType: string,
+  path: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!('expected' in config)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config`,
+      message: 'Missing required field: expected'
+    });
+    return issues;
+  }
+
+  if (!Array.isArray(config.expected)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.expected`,
+      message: `Expected of a list field must be an array, got ${typeof config.expected}`
+    });
+    return issues;
+  }
+
+  config.expected.forEach((entry: any, idx: number) => {
+    const matchesType = listItemType === 'string'
+      ? typeof entry === 'string'
+      : typeof entry === 'number' && (listItemType !== 'int' || Number.isInteger(entry));
+    if (!matchesType) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.expected[${idx}]`,
+        message: `List item_type is "${listItemType}" but entry is ${JSON.stringify(entry)}. Must be ${listItemType === 'int' ? 'integer number' : listItemType === 'float' ? 'number' : 'string'}.`
+      });
+    }
+  });
+
+  return issues;
+}
+
+function validateSubsetComparator(
+  config: any,
+  listItemType: string,
+  path: string
+): ValidationIssue[] {
+  const issues = validateListExpected(config, listItemType, path);
+
+  if ('min_items' in config) {
+    if (!Number.isInteger(config.min_items) || config.min_items < 1) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.min_items`,
+        message: 'Field "min_items" must be a positive integer'
+      });
+    } else if (Array.isArray(config.expected) && config.min_items > new Set(config.expected).size) {
+      issues.push({
+        severity: 'ERROR',
+        path: `${path}.config.min_items`,
+        message: `Field "min_items" is ${config.min_items} but expected only has ${new Set(config.expected).size} distinct entries, so no answer can pass`
+      });
+    }
+  }
+
+  return issues;
+}
+
+function validateJaccardComparator(
+  config: any,
+  listItemType: string,
+  path: string
+): ValidationIssue[] {
+  const issues = validateListExpected(config, listItemType, path);
+
+  if ('min_score' in config &&
+      (typeof config.min_score !== 'number' || config.min_score < 0 || config.min_score > 1)) {
+    issues.push({
+      severity: 'ERROR',
+      path: `${path}.config.min_score`,
+      message: 'Field "min_score" must be a number between 0 and 1'
+    });
+  }
+
+  return issues;
+}
+
 function validateLengthComparator(
   config: any,
   path: string,
@@ -0,0 +1,181 @@
+import { delocalizeNumber } from '@/lib/normalization'
+
+export type Dimension = 'length' | 'mass' | 'time' | 'scalar'
+
+interface UnitDefinition {
+  dimension: Dimension
+  factor: number // Multiplier to the dimension's base unit (m, g, s, or 1)
+}
+
+/**
+ * Units by spelling. Symbols are case-sensitive ("m" is metres, "M" is million);
+ * spelled-out names are matched case-insensitively through UNIT_NAMES.
+ * "scalar" covers plain numbers, percentages and K/M/B/T scale suffixes.
+ */
+const UNIT_SYMBOLS: Record<string, UnitDefinition> = {
+  nm: { dimension: 'length', factor: 1e-9 },
+  µm: { dimension: 'length', factor: 1e-6 },
+  um: { dimension: 'length', factor: 1e-6 },
+  mm: { dimension: 'length', factor: 1e-3 },
+  cm: { dimension: 'length', factor: 1e-2 },
+  m: { dimension: 'length', factor: 1 },
+  km: { dimension: 'length', factor: 1e3 },
+  in: { dimension: 'length', factor: 0.0254 },
+  '"': { dimension: 'length', factor: 0.0254 },
+  ft: { dimension: 'length', factor: 0.3048 },
+  "'": { dimension: 'length', factor: 0.3048 },
+  yd: { dimension: 'length', factor: 0.9144 },
+  mi: { dimension: 'length', factor: 1609.344 },
+
+  mg: { dimension: 'mass', factor: 1e-3 },
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1e3 },
+  t: { dimension: 'mass', factor: 1e6 },
+  oz: { dimension: 'mass', factor: 28.349523125 },
+  lb: { dimension: 'mass', factor: 453.59237 },
+  lbs: { dimension: 'mass', factor: 453.59237 },
+
+  ms: { dimension: 'time', factor: 1e-3 },
+  s: { dimension: 'time', factor: 1 },
+  sec: { dimension: 'time', factor: 1 },
+  min: { dimension: 'time', factor: 60 },
+  h: { dimension: 'time', factor: 3600 },
+  hr: { dimension: 'time', factor: 3600 },
+  d: { dimension: 'time', factor: 86400 },
+  wk: { dimension: 'time', factor: 604800 },
+
+  '%': { dimension: 'scalar', factor: 0.01 },
+  k: { dimension: 'scalar', factor: 1e3 },
+  K: { dimension: 'scalar', factor: 1e3 },
+  M: { dimension: 'scalar', factor: 1e6 },
+  MM: { dimension: 'scalar', factor: 1e6 }, // Finance shorthand for million
+  B: { dimension: 'scalar', factor: 1e9 },
+  bn: { dimension: 'scalar', factor: 1e9 },
+  T: { dimension: 'scalar', factor: 1e12 },
+}
+
+const UNIT_NAMES: Record<string, UnitDefinition> = {
+  nanometer: UNIT_SYMBOLS.nm,
+  micrometer: UNIT_SYMBOLS.um,
+  millimeter: UNIT_SYMBOLS.mm,
+  centimeter: UNIT_SYMBOLS.cm,
+  meter: UNIT_SYMBOLS.m,
+  metre: UNIT_SYMBOLS.m,
+  kilometer: UNIT_SYMBOLS.km,
+  kilometre: UNIT_SYMBOLS.km,
+  inch: UNIT_SYMBOLS.in,
+  inches: UNIT_SYMBOLS.in,
+  foot: UNIT_SYMBOLS.ft,
+  feet: UNIT_SYMBOLS.ft,
+  yard: UNIT_SYMBOLS.yd,
+  mile: UNIT_SYMBOLS.mi,
+
+  milligram: UNIT_SYMBOLS.mg,
+  gram: UNIT_SYMBOLS.g,
+  kilogram: UNIT_SYMBOLS.kg,
+  tonne: UNIT_SYMBOLS.t,
+  ounce: UNIT_SYMBOLS.oz,
+  pound: UNIT_SYMBOLS.lb,
+
+  millisecond: UNIT_SYMBOLS.ms,
+  second: UNIT_SYMBOLS.s,
+  minute: UNIT_SYMBOLS.min,
+  hour: UNIT_SYMBOLS.h,
+  day: UNIT_SYMBOLS.d,
+  week: UNIT_SYMBOLS.wk,
+
+  percent: UNIT_SYMBOLS['%'],
+  thousand: UNIT_SYMBOLS.K,
+  million: UNIT_SYMBOLS.M,
+  mn: UNIT_SYMBOLS.M,
+  billion: UNIT_SYMBOLS.B,
+  trillion: UNIT_SYMBOLS.T,
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { $: 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' }
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/
+
+export interface Quantity {
+  magnitude: number // As written, before unit conversion
+  unit: string // Unit as written ('' when absent)
+  dimension: Dimension
+  factor: number // Multiplier from the unit to the dimension's base unit
+  baseValue: number // Magnitude converted to the dimension's base unit
+  currency?: string // ISO code from a symbol or code, when present
+}
+
+/**
+ * Parses an answer such as "5 km", "$1.2M", "12.5%", "3 million EUR" or "0.125".
+ * Returns null when the text is not a number with a known unit.
+ * Numbers are read in `numberLocale` when given; otherwise "," is treated as a
+ * thousands separator only when it groups digits in threes ("5,000").
+ */
+export function parseQuantity(text: string, numberLocale?: string): Quantity | null {
+  let rest = text.trim()
+  let currency: string | undefined
+
+  const leadingSymbol = CURRENCY_SYMBOLS[rest[0]]
+  if (leadingSymbol) {
+    currency = leadingSymbol
+    rest = rest.slice(1).trim()
+  }
+
+  const numberMatch = rest.match(/^[-+]?(?:\d[\d.,\s]*\d|\d)(?:[eE][-+]?\d+)?/)
+  if (!numberMatch) return null
+
+  const magnitude = parseMagnitude(numberMatch[0], numberLocale)
+  if (magnitude === null) return null
+  rest = rest.slice(numberMatch[0].length).trim()
+
+  // A trailing currency symbol or ISO code ("5 €", "5M USD")
+  const trailingSymbol = CURRENCY_SYMBOLS[rest[rest.length - 1]]
+  if (trailingSymbol && !currency) {
+    currency = trailingSymbol
+    rest = rest.slice(0, -1).trim()
+  }
+  const trailingCode = rest.split(/\s+/).pop() ?? ''
+  if (CURRENCY_CODE_PATTERN.test(trailingCode) && !lookupUnit(trailingCode)) {
+    if (currency && currency !== trailingCode) return null
+    currency = trailingCode
+    rest = rest.slice(0, rest.length - trailingCode.length).trim()
+  }
+
+  const unit = lookupUnit(rest)
+  if (!unit) return null
+
+  return {
+    magnitude,
+    unit: rest,
+    dimension: unit.dimension,
+    factor: unit.factor,
+    baseValue: magnitude * unit.factor,
+    currency,
+  }
+}
+
+function lookupUnit(unit: string): UnitDefinition | undefined {
+  if (unit === '') return { dimension: 'scalar', factor: 1 }
+  if (hasOwn(UNIT_SYMBOLS, unit)) return UNIT_SYMBOLS[unit]
+
+  // Spelled-out names are case-insensitive and may be plural
+  const name = unit.toLowerCase()
+  if (hasOwn(UNIT_NAMES, name)) return UNIT_NAMES[name]
+  const singular = name.slice(0, -1)
+  return name.endsWith('s') && hasOwn(UNIT_NAMES, singular) ? UNIT_NAMES[singular] : undefined
+}
+
+function hasOwn(table: Record<string, UnitDefinition>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, key)
+}
+
+function parseMagnitude(text: string, numberLocale?: string): number | null {
+  let normalized = text.replace(/\s/g, '')
+  if (numberLocale) {
+    normalized = delocalizeNumber(text, numberLocale)
+  } else if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?([eE][-+]?\d+)?$/.test(normalized)) {
+    normalized = normalized.replace(/,/g, '')
+  }
+
+  const value = Number(normalized)
+  return Number.isFinite(value) ? value : null
+}
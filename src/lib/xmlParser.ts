@@ -0,0 +1,320 @@
+import type { GraderStructureField } from '@/types/database'
+
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string // Concatenated text and CDATA content directly inside this element
+}
+
+export class XmlParseError extends Error {
+  line: number
+  column: number
+
+  constructor(message: string, source: string, position: number) {
+    const before = source.slice(0, position).split('\n')
+    const line = before.length
+    const column = before[before.length - 1].length + 1
+    super(`${message} (line ${line}, column ${column})`)
+    this.name = 'XmlParseError'
+    this.line = line
+    this.column = column
+  }
+}
+
+const NAME_PATTERN = /^[A-Za-z_][\w.:-]*/
+const ATTRIBUTE_PATTERN = /^([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/
+const ENTITY_PATTERN = /&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g
+
+/**
+ * Parses an XML response into an element tree.
+ *
+ * Responses are treated as fragments: they may have several top-level elements and
+ * prose around them, so the returned element is a synthetic root named "#document".
+ * A "<" that does not start a well-formed tag (as in "a<b" or "x < 5") is text, and a
+ * bare "&" that does not start a known entity is kept literally, since labelers type
+ * answers like "R&D". Mismatched or unclosed tags throw an XmlParseError, unless
+ * `lenient` is set: then unclosed tags (such as a stray "<br>") close where their
+ * parent does or at the end, and closing tags nothing opened are ignored.
+ */
+export function parseXml(source: string, options: { lenient?: boolean } = {}): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack: Array<{ element: XmlElement; position: number }> = [{ element: root, position: 0 }]
+  let pos = 0
+
+  const current = () => stack[stack.length - 1].element
+
+  while (pos < source.length) {
+    const nextTag = source.indexOf('<', pos)
+    if (nextTag === -1) {
+      current().text += decodeEntities(source.slice(pos))
+      break
+    }
+    current().text += decodeEntities(source.slice(pos, nextTag))
+    pos = nextTag
+
+    // Leaves an unparseable "<" as text in lenient mode
+    const fail = (message: string) => {
+      if (!options.lenient) throw new XmlParseError(message, source, pos)
+      current().text += '<'
+      pos += 1
+    }
+
+    if (source.startsWith('<!--', pos)) {
+      const end = source.indexOf('-->', pos + 4)
+      if (end === -1) {
+        fail('Unterminated comment')
+        continue
+      }
+      pos = end + 3
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = source.indexOf(']]>', pos + 9)
+      if (end === -1) {
+        fail('Unterminated CDATA section')
+        continue
+      }
+      current().text += source.slice(pos + 9, end)
+      pos = end + 3
+    } else if (source.startsWith('<?', pos) || source.startsWith('<!', pos)) {
+      // Processing instructions and doctype declarations carry no answer content
+      const end = source.indexOf('>', pos)
+      if (end === -1) {
+        fail('Unterminated declaration')
+        continue
+      }
+      pos = end + 1
+    } else if (source.startsWith('</', pos)) {
+      const closeMatch = source.slice(pos).match(/^<\/([A-Za-z_][\w.:-]*)\s*>/)
+      if (!closeMatch) {
+        fail('Malformed closing tag')
+        continue
+      }
+      const name = closeMatch[1]
+
+      const open = stack[stack.length - 1]
+      if (options.lenient && open.element.name !== name) {
+        // Close the innermost open element of that name, or ignore the tag
+        const index = stack.map(frame => frame.element.name).lastIndexOf(name)
+        if (index > 0) stack.length = index
+        pos += closeMatch[0].length
+        continue
+      }
+      if (stack.length === 1) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`, source, pos)
+      }
+      if (open.element.name !== name) {
+        throw new XmlParseError(
+          `Mismatched closing tag </${name}>, expected </${open.element.name}>`,
+          source,
+          pos
+        )
+      }
+      stack.pop()
+      pos += closeMatch[0].length
+    } else {
+      const nameMatch = source.slice(pos + 1).match(NAME_PATTERN)
+      if (!nameMatch) {
+        // A lone "<" in prose (e.g. "x < 5") is text, not markup
+        current().text += '<'
+        pos += 1
+        continue
+      }
+
+      const element: XmlElement = { name: nameMatch[0], attributes: {}, children: [], text: '' }
+      const tagStart = pos
+      let tagEnd = pos + 1 + nameMatch[0].length
+      let selfClosing = false
+      let wellFormed = false
+
+      // Attributes
+      for (;;) {
+        const whitespace = source.slice(tagEnd).match(/^\s*/)![0]
+        tagEnd += whitespace.length
+
+        if (source.startsWith('/>', tagEnd)) {
+          selfClosing = true
+          wellFormed = true
+          tagEnd += 2
+          break
+        }
+        if (source[tagEnd] === '>') {
+          wellFormed = true
+          tagEnd += 1
+          break
+        }
+
+        const attributeMatch = whitespace ? source.slice(tagEnd).match(ATTRIBUTE_PATTERN) : null
+        if (!attributeMatch) break
+        if (attributeMatch[1] in element.attributes && !options.lenient) {
+          throw new XmlParseError(`Duplicate attribute "${attributeMatch[1]}" in <${element.name}>`, source, tagEnd)
+        }
+        element.attributes[attributeMatch[1]] ??= decodeEntities(attributeMatch[2] ?? attributeMatch[3])
+        tagEnd += attributeMatch[0].length
+      }
+
+      // Not a tag after all, e.g. "a<b and c": the "<" is text
+      if (!wellFormed) {
+        current().text += '<'
+        pos += 1
+        continue
+      }
+
+      current().children.push(element)
+      if (!selfClosing) stack.push({ element, position: tagStart })
+      pos = tagEnd
+    }
+  }
+
+  if (stack.length > 1 && !options.lenient) {
+    const unclosed = stack[stack.length - 1]
+    throw new XmlParseError(`Unclosed tag <${unclosed.element.name}>`, source, unclosed.position)
+  }
+
+  return root
+}
+
+/**
+ * Finds the element for a structure item under a parent.
+ * Direct children are preferred; otherwise the nearest descendant (breadth-first) is used,
+ * so top-level fields still resolve when labelers wrap their answer in a root element.
+ * Names starting with "@" address attributes of the parent instead.
+ */
+export function findElement(parent: XmlElement, name: string): XmlElement | undefined {
+  const queue = [...parent.children]
+  while (queue.length > 0) {
+    const element = queue.shift()!
+    if (element.name === name) return element
+    queue.push(...element.children)
+  }
+  return undefined
+}
+
+/**
+ * Resolves a structure item's value under a parent element, or undefined when absent
+ */
+export function resolveValue(parent: XmlElement, name: string): string | undefined {
+  if (name.startsWith('@')) {
+    return parent.attributes[name.slice(1)]
+  }
+  return findElement(parent, name)?.text.trim()
+}
+
+/**
+ * Resolves a list item's entries under a parent element, or undefined when absent.
+ * Child elements (<tags><item>a</item><item>b</item></tags>) give one entry each;
+ * otherwise the element's text is returned for the grader to split.
+ */
+export function resolveList(parent: XmlElement, name: string): string[] | string | undefined {
+  if (name.startsWith('@')) {
+    return parent.attributes[name.slice(1)]
+  }
+  const element = findElement(parent, name)
+  if (!element) return undefined
+  return element.children.length > 0 ? element.children.map(child => child.text.trim()) : element.text.trim()
+}
+
+/**
+ * Key used for a structure item in form responses and grader details:
+ * the plain name at the top level, the slash-joined path when nested.
+ */
+export function structurePath(parentPath: string, field: GraderStructureField): string {
+  return parentPath ? `${parentPath}/${field.name}` : field.name
+}
+
+/**
+ * Whether a structure item holds nested elements (attribute items don't count)
+ */
+export function hasChildElements(field: GraderStructureField): boolean {
+  return (field.children ?? []).some(child => !child.name.startsWith('@'))
+}
+
+/**
+ * Lists the structure items a labeler fills in (leaf elements and attributes) with their paths
+ */
+export function structureInputPaths(
+  structure: GraderStructureField[],
+  parentPath = ''
+): Array<{ path: string; field: GraderStructureField }> {
+  return structure.flatMap(field => {
+    const path = structurePath(parentPath, field)
+    const children = field.children ?? []
+    const own = hasChildElements(field) ? [] : [{ path, field }]
+    return [...own, ...structureInputPaths(children, path)]
+  })
+}
+
+/**
+ * Builds an XML response from form responses keyed by structure path
+ */
+export function buildXmlResponse(
+  structure: GraderStructureField[],
+  responses: Record<string, unknown>,
+  parentPath = ''
+): string {
+  return structure
+    .filter(field => !field.name.startsWith('@'))
+    .map(field => {
+      const path = structurePath(parentPath, field)
+      const children = field.children ?? []
+      const attributes = children
+        .filter(child => child.name.startsWith('@') && responses[structurePath(path, child)] !== undefined)
+        .map(child => ` ${child.name.slice(1)}="${escapeXml(String(responses[structurePath(path, child)]))}"`)
+        .join('')
+
+      const value = responses[path]
+      const inner = hasChildElements(field)
+        ? `\n${indent(buildXmlResponse(children, responses, path))}\n`
+        : Array.isArray(value)
+          ? buildXmlList(value)
+          : escapeXml(String(value ?? ''))
+
+      return `<${field.name}${attributes}>${inner}</${field.name}>`
+    })
+    .join('\n')
+}
+
+/**
+ * List answers become one <item> per non-blank entry
+ */
+function buildXmlList(items: unknown[]): string {
+  const entries = items.map(item => String(item).trim()).filter(item => item !== '')
+  return entries.length > 0
+    ? `\n${indent(entries.map(item => `<item>${escapeXml(item)}</item>`).join('\n'))}\n`
+    : ''
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function indent(text: string): string {
+  return text
+    .split('\n')
+    .map(line => `  ${line}`)
+    .join('\n')
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(ENTITY_PATTERN, (_, entity: string) => {
+    switch (entity) {
+      case 'lt':
+        return '<'
+      case 'gt':
+        return '>'
+      case 'amp':
+        return '&'
+      case 'quot':
+        return '"'
+      case 'apos':
+        return "'"
+      default:
+        return String.fromCodePoint(
+          entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        )
+    }
+  })
+}
@@ -0,0 +1,383 @@
+export class YamlParseError extends Error {
+  line: number
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`)
+    this.name = 'YamlParseError'
+    this.line = line
+  }
+}
+
+interface YamlLine {
+  indent: number
+  content: string // Without indentation and comments
+  number: number // 1-based
+}
+
+const NULL_PATTERN = /^(?:~|null|Null|NULL)$/
+const TRUE_PATTERN = /^(?:true|True|TRUE)$/
+const FALSE_PATTERN = /^(?:false|False|FALSE)$/
+const INT_PATTERN = /^[-+]?(?:0|[1-9]\d*)$/
+const FLOAT_PATTERN = /^[-+]?(?:\d+\.\d*|\.\d+|\d+)(?:[eE][-+]?\d+)?$/
+
+/**
+ * Parses the block-style YAML people write by hand into plain JSON values.
+ *
+ * Supported: nested mappings and sequences, plain, single- and double-quoted scalars,
+ * literal (|) and folded (>) block scalars, one-line flow collections ([a, b], {a: 1})
+ * and comments. Anchors, aliases, tags, multi-line plain scalars and multiple
+ * documents throw a YamlParseError rather than being guessed at.
+ */
+export function parseYaml(source: string): unknown {
+  const rawLines = source.replace(/^\uFEFF/, '').split(/\r?\n/)
+  let index = 0
+  let started = false
+
+  // Next line with content, skipping blank and comment-only lines
+  const peek = (): YamlLine | null => {
+    while (index < rawLines.length) {
+      const raw = rawLines[index]
+      const indent = raw.length - raw.trimStart().length
+      const content = stripComment(raw.slice(indent)).trimEnd()
+      if (content === '' || (!started && indent === 0 && content === '---')) {
+        index++
+        continue
+      }
+      if (raw.slice(0, indent).includes('\t')) {
+        throw new YamlParseError('Tabs are not allowed in indentation', index + 1)
+      }
+      if (indent === 0 && (content === '---' || content === '...')) {
+        throw new YamlParseError('Only one YAML document is supported', index + 1)
+      }
+      started = true
+      return { indent, content, number: index + 1 }
+    }
+    return null
+  }
+
+  // Replaces the current line with what follows "- " so nested blocks can reuse it
+  const replaceCurrent = (indent: number, content: string) => {
+    rawLines[index] = ' '.repeat(indent) + content
+  }
+
+  const parseBlock = (indent: number): unknown => {
+    const line = peek()
+    if (!line || line.indent < indent) return null
+    if (isSequenceItem(line.content)) return parseSequence(line.indent)
+    if (findMappingColon(line.content) !== -1) return parseMapping(line.indent)
+
+    index++
+    const next = peek()
+    if (next && next.indent > line.indent) {
+      throw new YamlParseError('Multi-line plain text is not supported; use | for multi-line text', next.number)
+    }
+    return parseInlineValue(line.content, line.number)
+  }
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = []
+    for (;;) {
+      const line = peek()
+      if (!line || line.indent < indent) return items
+      if (line.indent > indent) throw new YamlParseError('Unexpected indentation', line.number)
+      if (!isSequenceItem(line.content)) return items
+
+      const rest = line.content.slice(1).trimStart()
+      const restIndent = indent + line.content.length - rest.length
+      if (rest === '') {
+        index++
+        const next = peek()
+        items.push(next && next.indent > indent ? parseBlock(next.indent) : null)
+      } else if (isBlockScalarHeader(rest)) {
+        index++
+        items.push(parseBlockScalar(rest, indent, line.number))
+      } else if (isSequenceItem(rest) || findMappingColon(rest) !== -1) {
+        // "- key: value" starts a mapping whose keys line up with "key"
+        replaceCurrent(restIndent, rest)
+        items.push(parseBlock(restIndent))
+      } else {
+        index++
+        items.push(parseInlineValue(rest, line.number))
+        const next = peek()
+        if (next && next.indent > indent) throw new YamlParseError('Unexpected indentation', next.number)
+      }
+    }
+  }
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const mapping: Record<string, unknown> = {}
+    for (;;) {
+      const line = peek()
+      if (!line || line.indent < indent) return mapping
+      if (line.indent > indent) throw new YamlParseError('Unexpected indentation', line.number)
+      if (isSequenceItem(line.content)) return mapping
+
+      const colon = findMappingColon(line.content)
+      if (colon === -1) throw new YamlParseError('Expected "key: value"', line.number)
+      const key = parseKey(line.content.slice(0, colon).trim(), line.number)
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new YamlParseError(`Duplicate key "${key}"`, line.number)
+      }
+      const rest = line.content.slice(colon + 1).trim()
+      index++
+
+      if (rest === '') {
+        const next = peek()
+        if (next && next.indent > indent) {
+          mapping[key] = parseBlock(next.indent)
+        } else if (next && next.indent === indent && isSequenceItem(next.content)) {
+          // Sequences may sit at the same indentation as their key
+          mapping[key] = parseSequence(indent)
+        } else {
+          mapping[key] = null
+        }
+      } else if (isBlockScalarHeader(rest)) {
+        mapping[key] = parseBlockScalar(rest, indent, line.number)
+      } else {
+        mapping[key] = parseInlineValue(rest, line.number)
+        const next = peek()
+        if (next && next.indent > indent) {
+          throw new YamlParseError('Multi-line plain text is not supported; use | for multi-line text', next.number)
+        }
+      }
+    }
+  }
+
+  // Reads the lines of a | or > scalar; they must be indented past the parent
+  const parseBlockScalar = (header: string, parentIndent: number, lineNumber: number): string => {
+    const match = /^([|>])([-+]?)$/.exec(header)
+    if (!match) throw new YamlParseError(`Unsupported block scalar header "${header}"`, lineNumber)
+    const [, style, chomping] = match
+
+    const lines: string[] = []
+    let blockIndent = -1
+    while (index < rawLines.length) {
+      const raw = rawLines[index]
+      if (raw.trim() === '') {
+        lines.push('')
+        index++
+        continue
+      }
+      const indent = raw.length - raw.trimStart().length
+      if (blockIndent === -1) {
+        if (indent <= parentIndent) break
+        blockIndent = indent
+      }
+      if (indent < blockIndent) break
+      lines.push(raw.slice(blockIndent))
+      index++
+    }
+
+    // Trailing blank lines belong to the chomping rule, not the content
+    let trailing = 0
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop()
+      trailing++
+    }
+
+    const text = style === '|'
+      ? lines.join('\n')
+      : lines.reduce((folded, line, lineIndex) => {
+        if (lineIndex === 0) return line
+        if (line === '') return `${folded}\n`
+        return folded.endsWith('\n') || /^\s/.test(line) ? `${folded}${line}` : `${folded} ${line}`
+      }, '')
+
+    if (lines.length === 0) return ''
+    if (chomping === '-') return text
+    if (chomping === '+') return `${text}\n${'\n'.repeat(trailing)}`
+    return `${text}\n`
+  }
+
+  const value = parseBlock(0)
+  const leftover = peek()
+  if (leftover) throw new YamlParseError('Unexpected content', leftover.number)
+  return value
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ')
+}
+
+function isBlockScalarHeader(value: string): boolean {
+  return /^[|>][-+]?$/.test(value)
+}
+
+// Removes a trailing "# comment" that is outside quotes
+function stripComment(content: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quote) {
+      if (char === '\\' && quote === '"') i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      if (i === 0 || /[\s:[{,-]/.test(content[i - 1])) quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(content[i - 1]))) {
+      return content.slice(0, i)
+    }
+  }
+  return content
+}
+
+// Position of the ":" ending a mapping key, or -1 when the line is not "key: value"
+function findMappingColon(content: string): number {
+  if (content.startsWith('"') || content.startsWith("'")) {
+    const quote = content[0]
+    let i = 1
+    while (i < content.length) {
+      if (content[i] === '\\' && quote === '"') i += 2
+      else if (content[i] === "'" && quote === "'" && content[i + 1] === "'") i += 2
+      else if (content[i] === quote) break
+      else i++
+    }
+    const after = content.slice(i + 1)
+    const colon = after.search(/\S/)
+    return colon !== -1 && after[colon] === ':' && /^(?:\s|$)/.test(after.slice(colon + 1)) ? i + 1 + colon : -1
+  }
+  if (/^[[{]/.test(content)) return -1
+  const match = /:(?:\s|$)/.exec(content)
+  return match ? match.index : -1
+}
+
+function parseKey(key: string, lineNumber: number): string {
+  if (key === '') throw new YamlParseError('Empty mapping key', lineNumber)
+  if (key.startsWith('"') || key.startsWith("'")) return parseQuoted(key, lineNumber)
+  return key
+}
+
+function parseInlineValue(value: string, lineNumber: number): unknown {
+  if (value.startsWith('[') || value.startsWith('{')) {
+    const parser = new FlowParser(value, lineNumber)
+    const result = parser.parseValue()
+    parser.expectEnd()
+    return result
+  }
+  if (value.startsWith('"') || value.startsWith("'")) return parseQuoted(value, lineNumber)
+  return parsePlainScalar(value, lineNumber)
+}
+
+function parseQuoted(value: string, lineNumber: number): string {
+  const quote = value[0]
+  if (value.length < 2 || value[value.length - 1] !== quote) {
+    throw new YamlParseError('Unterminated quoted string', lineNumber)
+  }
+  const inner = value.slice(1, -1)
+  if (quote === "'") {
+    if (/'(?!')/.test(inner.replace(/''/g, ''))) throw new YamlParseError('Unexpected quote in string', lineNumber)
+    return inner.replace(/''/g, "'")
+  }
+  try {
+    return JSON.parse(value)
+  } catch {
+    throw new YamlParseError('Invalid double-quoted string', lineNumber)
+  }
+}
+
+function parsePlainScalar(value: string, lineNumber: number): unknown {
+  if (/^[&*!]/.test(value)) {
+    throw new YamlParseError('Anchors, aliases and tags are not supported', lineNumber)
+  }
+  if (NULL_PATTERN.test(value)) return null
+  if (TRUE_PATTERN.test(value)) return true
+  if (FALSE_PATTERN.test(value)) return false
+  if (INT_PATTERN.test(value) || FLOAT_PATTERN.test(value)) return Number(value)
+  return value
+}
+
+// One-line flow collections: [a, "b", {c: 1}]
+class FlowParser {
+  private pos = 0
+
+  constructor(private text: string, private lineNumber: number) {}
+
+  parseValue(): unknown {
+    this.skipSpaces()
+    const char = this.text[this.pos]
+    if (char === '[') return this.parseSequence()
+    if (char === '{') return this.parseMapping()
+    if (char === '"' || char === "'") return parseQuoted(this.readQuoted(), this.lineNumber)
+    return parsePlainScalar(this.readPlain(), this.lineNumber)
+  }
+
+  expectEnd() {
+    this.skipSpaces()
+    if (this.pos < this.text.length) this.fail('Unexpected text after flow collection')
+  }
+
+  private parseSequence(): unknown[] {
+    const items: unknown[] = []
+    this.pos++
+    this.skipSpaces()
+    if (this.text[this.pos] === ']') {
+      this.pos++
+      return items
+    }
+    for (;;) {
+      items.push(this.parseValue())
+      this.skipSpaces()
+      const char = this.text[this.pos++]
+      if (char === ']') return items
+      if (char !== ',') this.fail('Expected "," or "]"')
+    }
+  }
+
+  private parseMapping(): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {}
+    this.pos++
+    this.skipSpaces()
+    if (this.text[this.pos] === '}') {
+      this.pos++
+      return mapping
+    }
+    for (;;) {
+      this.skipSpaces()
+      const char = this.text[this.pos]
+      const key = char === '"' || char === "'" ? parseQuoted(this.readQuoted(), this.lineNumber) : this.readPlain(':')
+      this.skipSpaces()
+      if (this.text[this.pos++] !== ':') this.fail('Expected ":" after key')
+      mapping[key] = this.parseValue()
+      this.skipSpaces()
+      const next = this.text[this.pos++]
+      if (next === '}') return mapping
+      if (next !== ',') this.fail('Expected "," or "}"')
+    }
+  }
+
+  private readQuoted(): string {
+    const quote = this.text[this.pos]
+    const start = this.pos++
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos]
+      if (char === '\\' && quote === '"') {
+        this.pos += 2
+      } else if (char === quote) {
+        if (quote === "'" && this.text[this.pos + 1] === "'") {
+          this.pos += 2
+        } else {
+          this.pos++
+          return this.text.slice(start, this.pos)
+        }
+      } else {
+        this.pos++
+      }
+    }
+    return this.fail('Unterminated quoted string')
+  }
+
+  private readPlain(stop = ''): string {
+    const start = this.pos
+    while (this.pos < this.text.length && !`,]}${stop}`.includes(this.text[this.pos])) this.pos++
+    const value = this.text.slice(start, this.pos).trim()
+    if (value === '') this.fail('Expected a value')
+    return value
+  }
+
+  private skipSpaces() {
+    while (this.text[this.pos] === ' ') this.pos++
+  }
+
+  private fail(message: string): never {
+    throw new YamlParseError(message, this.lineNumber)
+  }
+}
@@ -1,26 +1,92 @@
+import type {
+  ComparatorType,
+  DateGranularity,
+  FieldType,
+  GraderType,
+  ListItemType,
+  NormalizationStep,
+  ScoreAggregation,
+  ToleranceType,
+} from '@/lib/graderSchema'
+import type { GraderSnapshot } from '@/lib/graderSnapshot'
+
 export type TaskStatus = 'draft' | 'assigned' | 'in_progress' | 'submitted' | 'reviewed' | 'completed' | 'revision_requested'
 
-// New grader-based types
-export type GraderType = 'xml' | 'json' | 'text' | 'number' | 'unit' | 'unit_test'
-export type ComparatorType = 'equals' | 'contains' | 'range' | 'regex'
+// New grader-based types (declared once in the shared grader schema)
+export type {
+  ComparatorType,
+  DateGranularity,
+  FieldType,
+  GraderType,
+  ListItemType,
+  NormalizationStep,
+  ScoreAggregation,
+  ToleranceType,
+}
+
+// Normalization applied before comparing; string steps come from the shared schema
+export type NormalizationConfig = { [step in NormalizationStep]?: boolean } & {
+  number_locale?: string // BCP 47 tag used to read numbers, e.g. "de-DE" reads "3,14" as 3.14
+}
 
 export interface ComparatorConfig {
   type: ComparatorType
   config: {
-    expected?: string | number | boolean
-    min?: number
-    max?: number
+    expected?: string | number | boolean | Array<string | number> // Arrays for list fields
+    min?: number | string // Dates (e.g. "2024-01-01") for date fields
+    max?: number | string
     pattern?: string
+    flags?: string // For regex: any of "imsu"
+    tolerance?: number // For tolerance and expression; in days for date fields
+    type?: ToleranceType // For tolerance and expression
+    substring?: string // For contains (alias of expected)
+    case_sensitive?: boolean // For contains, defaults to true
+    allowed_values?: Array<string | number | boolean> // For in_list
+    min_length?: number // For length
+    max_length?: number // For length
+    exact_length?: number // For length
+    normalize?: NormalizationConfig
+    fuzzy_threshold?: number // For equals/in_list: minimum similarity (0-1) that still passes
+    min_items?: number // For subset: how many correct items an answer needs, defaults to 1
+    min_score?: number // For jaccard: overlap below this earns no credit, defaults to 0
+    granularity?: DateGranularity // For date fields: finest unit that must match, defaults to day
+    day_first?: boolean // For date fields: read "03/01/2024" as 3 January
+    significant_figures?: number // For expression: round both values to this many before comparing
+    min_significant_figures?: number // For expression: plain-number answers must state at least this many
     [key: string]: unknown
   }
 }
 
+// Another acceptable answer for a structure field or test case
+export interface AlternativeAnswer {
+  expected?: string | number | boolean | Array<string | number> // Checked the same way as the primary expected value
+  comparator?: ComparatorConfig // Or checked with its own comparator
+  credit?: number // Share of the weight awarded (0-1), defaults to 1
+  label?: string // Reported in grader details when this alternative matches
+}
+
 export interface GraderStructureField {
   id: string
   name: string
-  type: 'int' | 'string' | 'boolean' | 'float'
+  type: FieldType
+  item_type?: ListItemType // For list fields, defaults to string
   weight: number
-  comparator: ComparatorConfig
+  penalty?: number // Points deducted when answered wrongly (no credit); abstaining costs nothing
+  allow_abstain?: boolean // Labelers may answer ABSTAIN_ANSWER ("[unknown]") instead of guessing
+  comparator?: ComparatorConfig // Omitted on container items, which are scored through their children
+  alternatives?: AlternativeAnswer[] // Tried in order when the comparator fails; best credit wins
+  children?: GraderStructureField[] // Nested XML elements, resolved relative to this item
+  isExpanded?: boolean // Editor UI state from the neoforge export
+}
+
+// Formula that structure fields must satisfy together, scored as an extra item
+export interface GraderRule {
+  id: string
+  name?: string
+  formula: string // e.g. "total = revenue + other_income"; nested paths in braces: "{balance/end}"
+  weight: number
+  tolerance?: number // Allowed difference between the two sides
+  tolerance_type?: ToleranceType // Percentage is relative to the right-hand side, defaults to absolute
 }
 
 export interface GraderConfig {
@@ -28,17 +94,45 @@ export interface GraderConfig {
   name: string
   config: {
     structure?: GraderStructureField[]
-    test_cases?: Array<{ id: string; expected_value?: unknown }>
+    binary_mode?: boolean // All-or-nothing: any failed field scores the whole grader as 0
+    rules?: GraderRule[] // For xml/json graders: cross-field consistency checks
+    score_floor?: number // For xml/json graders: lowest score penalties can reach, in field points (default 0)
+    test_cases?: Array<{
+      id: string
+      expected_value?: unknown
+      tolerance?: number // For unit graders, overrides the grader-level tolerance
+      tolerance_type?: ToleranceType // For unit graders
+      alternatives?: AlternativeAnswer[] // Other accepted values, tried when expected_value fails
+    }>
+    tolerance?: number // For unit graders: absolute (in the expected value's unit) or percentage
+    tolerance_type?: ToleranceType // For unit graders, defaults to absolute
+    script?: string // For bash graders
+    timeout_ms?: number // For bash graders
+    memory_limit_mb?: number // For bash graders
+    normalize?: NormalizationConfig // For text and number graders
+    fuzzy_threshold?: number // For text graders
     [key: string]: unknown
   }
   weight: number
 }
 
+// Sample response a task's graders must grade as stated; checked by the task validator
+export interface TaskExample {
+  name?: string
+  response?: string // Raw response text, as the graders see it
+  form_data?: Record<string, string | number | string[]> // Or form answers keyed by field path
+  expected_score?: number // Percentage score, 0-100
+  expected_passed?: boolean
+}
+
 export interface TaskDefinition {
   name: string
   description?: string
   prompt: string
   graders: GraderConfig[]
+  score_aggregation?: ScoreAggregation // Defaults to weighted_sum
+  examples?: TaskExample[] // Grader self-tests; not stored with the task
+  assign_to?: string[] // Labeler emails to assign the task to on upload
 }
 
 export interface BulkTaskUpload {
@@ -80,6 +174,9 @@ export interface Task {
   export_count: number | null
   best_submission_id: string | null
   required_submissions: number | null
+  score_aggregation: ScoreAggregation
+  version: number // Starts at 1
+  previous_version_id: string | null
 }
 
 export interface Artifact {
@@ -119,6 +216,8 @@ export interface Submission {
   rubric_data: Record<string, unknown> | null // Legacy support
   grader_results: Record<string, unknown> | null // Auto-grading results
   score: number | null // Calculated score
+  grader_config_hash: string | null // Hash of the grader config that produced grader_results
+  grader_snapshot: GraderSnapshot | null // The graders and aggregation used, as graded
   status: TaskStatus
   feedback: string | null
   reviewed_by: string | null
@@ -0,0 +1,11 @@
+-- Add score_aggregation column to tasks table
+-- Controls how per-grader scores combine into the task score:
+--   weighted_sum   - sum of grader points (grader weight scales structure field points)
+--   weighted_mean  - mean of each grader's fraction, weighted by grader weight
+--   minimum        - the lowest grader fraction
+--   all_must_pass  - 100% only when every grader passes, otherwise 0%
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS score_aggregation TEXT NOT NULL DEFAULT 'weighted_sum'
+CHECK (score_aggregation IN ('weighted_sum', 'weighted_mean', 'minimum', 'all_must_pass'));
+
+COMMENT ON COLUMN public.tasks.score_aggregation IS 'How grader scores are aggregated into the task score';
@@ -0,0 +1,35 @@
+-- Migration: Only the grading server may write submission scores
+-- Submissions are graded by the /api/submissions route, which writes score and
+-- grader_results with the service role. Labelers can still insert and update their
+-- own submissions (drafts, comments, flags) under the existing RLS policies, but any
+-- change to the score columns from a browser session is rejected.
+
+CREATE OR REPLACE FUNCTION public.protect_submission_scores()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.score IS NOT NULL OR NEW.grader_results IS NOT NULL THEN
+      RAISE EXCEPTION 'Submission scores can only be set by the grading server'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.score IS DISTINCT FROM OLD.score
+     OR NEW.grader_results IS DISTINCT FROM OLD.grader_results THEN
+    RAISE EXCEPTION 'Submission scores can only be set by the grading server'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_submission_scores ON public.submissions;
+CREATE TRIGGER trigger_protect_submission_scores
+  BEFORE INSERT OR UPDATE ON public.submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_submission_scores();
+
+COMMENT ON FUNCTION public.protect_submission_scores() IS 'Rejects score/grader_results writes that do not come from the service role';
@@ -0,0 +1,32 @@
+-- Migration: Record batch regrades of submissions
+-- When an admin fixes a task's graders, the /api/regrade route re-runs them over the
+-- existing submissions. Every submission whose results change gets a row here with its
+-- score before and after, so a regrade can be audited (and undone by hand if needed).
+
+CREATE TABLE IF NOT EXISTS public.submission_regrades (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    submission_id UUID REFERENCES public.submissions(id) ON DELETE CASCADE NOT NULL,
+    task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+    previous_score NUMERIC,
+    new_score NUMERIC,
+    previous_grader_results JSONB,
+    new_grader_results JSONB,
+    regraded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    regraded_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_regrades_submission_id
+ON public.submission_regrades(submission_id, regraded_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_submission_regrades_task_id
+ON public.submission_regrades(task_id);
+
+ALTER TABLE public.submission_regrades ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the grading server with the service role; admins can read them
+CREATE POLICY "Admins can view submission regrades"
+    ON public.submission_regrades
+    FOR SELECT
+    USING (public.is_admin_or_super_admin(auth.uid()));
+
+COMMENT ON TABLE public.submission_regrades IS 'Before/after scores for submissions re-graded after their task graders changed';
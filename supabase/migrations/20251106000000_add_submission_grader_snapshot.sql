@@ -0,0 +1,41 @@
+-- Migration: Record which grader config produced each submission's score
+-- The grading server stores a SHA-256 of the task's graders and score aggregation
+-- (as canonical JSON) next to grader_results, plus a copy of that config. Comparing the
+-- hash with the task's current config shows which scores are stale after the graders
+-- are edited. Rows graded before this migration have no hash.
+
+ALTER TABLE public.submissions
+ADD COLUMN IF NOT EXISTS grader_config_hash TEXT,
+ADD COLUMN IF NOT EXISTS grader_snapshot JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_grader_config_hash
+ON public.submissions(task_id, grader_config_hash);
+
+COMMENT ON COLUMN public.submissions.grader_config_hash IS 'SHA-256 of the grader config (graders and score aggregation) used to grade this submission';
+COMMENT ON COLUMN public.submissions.grader_snapshot IS 'Graders and score aggregation used to grade this submission';
+
+-- Only the grading server may write the snapshot, like the score it describes
+CREATE OR REPLACE FUNCTION public.protect_submission_scores()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.score IS NOT NULL OR NEW.grader_results IS NOT NULL
+       OR NEW.grader_config_hash IS NOT NULL OR NEW.grader_snapshot IS NOT NULL THEN
+      RAISE EXCEPTION 'Submission scores can only be set by the grading server'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.score IS DISTINCT FROM OLD.score
+     OR NEW.grader_results IS DISTINCT FROM OLD.grader_results
+     OR NEW.grader_config_hash IS DISTINCT FROM OLD.grader_config_hash
+     OR NEW.grader_snapshot IS DISTINCT FROM OLD.grader_snapshot THEN
+    RAISE EXCEPTION 'Submission scores can only be set by the grading server'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,18 @@
+-- Migration: Task versions for bulk upload conflicts
+-- When an uploaded task matches an existing one by name or prompt, admins can create
+-- it as a new version instead of skipping or overwriting. Each version points at the
+-- version it replaces.
+
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1),
+ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_previous_version_id
+ON public.tasks(previous_version_id);
+
+-- Conflict checks look tasks up by name, ignoring case
+CREATE INDEX IF NOT EXISTS idx_tasks_title_lower
+ON public.tasks(lower(title));
+
+COMMENT ON COLUMN public.tasks.version IS 'Version number among tasks sharing this title, starting at 1';
+COMMENT ON COLUMN public.tasks.previous_version_id IS 'The task version this one replaces';
@@ -0,0 +1,204 @@
+-- Migration: Create bulk-uploaded tasks in one transaction
+-- Bulk upload used to insert tasks one request at a time, so a failure part way
+-- through left the earlier tasks behind. bulk_create_tasks creates, overwrites or
+-- versions every task (with its graders and assignments) or, on any error, none.
+--
+-- p_tasks is a JSON array; each element holds:
+--   name, description, prompt, graders, score_aggregation  - as in the upload JSON
+--   assign_to          - optional array of labeler emails to assign the task to
+--   resolution         - optional 'skip', 'overwrite' or 'new_version' for a task that
+--   existing_task_id     conflicts with existing_task_id
+--
+-- Returns one row per element, in order, with the affected task's id and the action
+-- taken: 'created', 'overwritten', 'new_version' or 'skipped'. Errors name the task's
+-- index in the upload.
+--
+-- The app checks for conflicts before calling this, so conflicts are checked again here:
+-- if a task sharing a name or prompt was created since (or now matches better than
+-- existing_task_id), the whole call fails and the upload has to be checked again.
+-- Advisory locks on each name and prompt keep concurrent uploads from racing past
+-- the check.
+
+CREATE OR REPLACE FUNCTION public.bulk_create_tasks(p_tasks JSONB)
+RETURNS TABLE (task_index INTEGER, task_id UUID, action TEXT) AS $$
+#variable_conflict use_column
+DECLARE
+  v_task JSONB;
+  v_index INTEGER;
+  v_label TEXT;
+  v_resolution TEXT;
+  v_existing_id UUID;
+  v_existing_version INTEGER;
+  v_task_id UUID;
+  v_written_ids UUID[] := '{}';
+  v_conflict_title TEXT;
+  v_labeler_ids UUID[];
+  v_missing_emails TEXT;
+BEGIN
+  IF NOT public.is_admin_or_super_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can create tasks'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_tasks) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Tasks must be a JSON array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Locks are taken in a fixed order so two uploads can't deadlock
+  PERFORM pg_advisory_xact_lock(lock_key)
+  FROM (
+    SELECT hashtext('task_name:' || lower(btrim(value->>'name', E' \t\r\n'))) AS lock_key
+    FROM jsonb_array_elements(p_tasks)
+    UNION
+    SELECT hashtext('task_prompt:' || md5(btrim(value->>'prompt', E' \t\r\n')))
+    FROM jsonb_array_elements(p_tasks)
+    ORDER BY lock_key
+  ) AS lock_keys;
+
+  FOR v_task, v_index IN
+    SELECT value, (ordinality - 1)::INTEGER FROM jsonb_array_elements(p_tasks) WITH ORDINALITY
+  LOOP
+    v_label := format('Task %s (%s)', v_index, COALESCE(v_task->>'name', 'unnamed'));
+    v_resolution := v_task->>'resolution';
+    v_existing_id := (v_task->>'existing_task_id')::UUID;
+    v_task_id := NULL;
+
+    IF v_resolution IS NOT NULL AND v_existing_id IS NULL THEN
+      RAISE EXCEPTION '%: resolution "%" needs existing_task_id', v_label, v_resolution
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Same matching as findTaskConflicts: a name match beats a prompt match, then the
+    -- highest version wins. Tasks written earlier in this call don't count.
+    SELECT tasks.title INTO v_conflict_title
+    FROM public.tasks
+    WHERE (lower(tasks.title) = lower(btrim(v_task->>'name', E' \t\r\n'))
+        OR md5(btrim(tasks.prompt, E' \t\r\n')) = md5(btrim(v_task->>'prompt', E' \t\r\n')))
+      AND NOT tasks.id = ANY(v_written_ids)
+      AND tasks.id IS DISTINCT FROM v_existing_id
+      AND (
+        v_existing_id IS NULL
+        OR (lower(tasks.title) = lower(btrim(v_task->>'name', E' \t\r\n')), tasks.version) > (
+          SELECT lower(existing.title) = lower(btrim(v_task->>'name', E' \t\r\n')), existing.version
+          FROM public.tasks AS existing
+          WHERE existing.id = v_existing_id
+        )
+      )
+    LIMIT 1;
+
+    IF v_conflict_title IS NOT NULL THEN
+      RAISE EXCEPTION '%: conflicts with task "%", created or changed since the upload was checked; upload again to resolve it', v_label, v_conflict_title
+        USING ERRCODE = '23505';
+    END IF;
+
+    IF v_resolution = 'skip' THEN
+      task_index := v_index;
+      task_id := v_existing_id;
+      action := 'skipped';
+      RETURN NEXT;
+      CONTINUE;
+    ELSIF v_resolution = 'overwrite' THEN
+      UPDATE public.tasks
+      SET title = v_task->>'name',
+          description = NULLIF(v_task->>'description', ''),
+          prompt = v_task->>'prompt',
+          graders = v_task->'graders',
+          score_aggregation = COALESCE(v_task->>'score_aggregation', 'weighted_sum')
+      WHERE id = v_existing_id
+      RETURNING id INTO v_task_id;
+
+      IF v_task_id IS NULL THEN
+        RAISE EXCEPTION '%: the task to overwrite no longer exists', v_label
+          USING ERRCODE = 'P0002';
+      END IF;
+      action := 'overwritten';
+    ELSIF v_resolution = 'new_version' THEN
+      SELECT version INTO v_existing_version
+      FROM public.tasks
+      WHERE id = v_existing_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '%: the task to version no longer exists', v_label
+          USING ERRCODE = 'P0002';
+      END IF;
+
+      INSERT INTO public.tasks (title, description, prompt, graders, score_aggregation, created_by, status, version, previous_version_id)
+      VALUES (
+        v_task->>'name',
+        NULLIF(v_task->>'description', ''),
+        v_task->>'prompt',
+        v_task->'graders',
+        COALESCE(v_task->>'score_aggregation', 'weighted_sum'),
+        auth.uid(),
+        'draft',
+        v_existing_version + 1,
+        v_existing_id
+      )
+      RETURNING id INTO v_task_id;
+      action := 'new_version';
+    ELSIF v_resolution IS NULL THEN
+      INSERT INTO public.tasks (title, description, prompt, graders, score_aggregation, created_by, status)
+      VALUES (
+        v_task->>'name',
+        NULLIF(v_task->>'description', ''),
+        v_task->>'prompt',
+        v_task->'graders',
+        COALESCE(v_task->>'score_aggregation', 'weighted_sum'),
+        auth.uid(),
+        'draft'
+      )
+      RETURNING id INTO v_task_id;
+      action := 'created';
+    ELSE
+      RAISE EXCEPTION '%: unknown resolution "%"', v_label, v_resolution
+        USING ERRCODE = '22023';
+    END IF;
+
+    v_written_ids := v_written_ids || v_task_id;
+
+    -- Assign labelers by email, as BatchAssignment does by id
+    IF jsonb_typeof(v_task->'assign_to') = 'array' AND jsonb_array_length(v_task->'assign_to') > 0 THEN
+      SELECT string_agg(email, ', ') INTO v_missing_emails
+      FROM jsonb_array_elements_text(v_task->'assign_to') AS emails(email)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE lower(user_profiles.email) = lower(emails.email)
+      );
+
+      IF v_missing_emails IS NOT NULL THEN
+        RAISE EXCEPTION '%: no user with email %', v_label, v_missing_emails
+          USING ERRCODE = 'P0002';
+      END IF;
+
+      SELECT array_agg(id) INTO v_labeler_ids
+      FROM public.user_profiles
+      WHERE lower(email) IN (
+        SELECT lower(value) FROM jsonb_array_elements_text(v_task->'assign_to')
+      );
+
+      INSERT INTO public.task_assignments (task_id, labeler_id, assigned_by)
+      SELECT v_task_id, labeler_id, auth.uid()
+      FROM unnest(v_labeler_ids) AS labelers(labeler_id)
+      ON CONFLICT (task_id, labeler_id) DO NOTHING;
+
+      UPDATE public.tasks
+      SET status = 'assigned'
+      WHERE id = v_task_id AND status = 'draft';
+
+      UPDATE public.user_profiles
+      SET awaiting_tasks = FALSE
+      WHERE id = ANY(v_labeler_ids);
+    END IF;
+
+    task_index := v_index;
+    task_id := v_task_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.bulk_create_tasks(JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.bulk_create_tasks(JSONB) IS 'Creates, overwrites or versions bulk-uploaded tasks with their assignments, all or nothing';
@@ -0,0 +1,25 @@
+-- Migration: Look up only the existing tasks a bulk upload conflicts with
+-- Bulk upload used to fetch every task, prompt included, to check for conflicts, which
+-- is slow and stops at PostgREST's row limit. find_conflicting_tasks returns just the
+-- tasks whose name (ignoring case) or trimmed prompt matches an uploaded one; the app
+-- then picks the conflicts from those. Names use idx_tasks_title_lower. Prompts are
+-- indexed by hash, as long prompts don't fit in a btree index.
+
+CREATE INDEX IF NOT EXISTS idx_tasks_prompt_md5
+ON public.tasks(md5(btrim(prompt, E' \t\r\n')));
+
+CREATE OR REPLACE FUNCTION public.find_conflicting_tasks(p_names TEXT[], p_prompts TEXT[])
+RETURNS TABLE (id UUID, title TEXT, prompt TEXT, version INTEGER) AS $$
+  SELECT tasks.id, tasks.title, tasks.prompt, tasks.version
+  FROM public.tasks
+  WHERE lower(tasks.title) = ANY (
+      ARRAY(SELECT lower(btrim(name, E' \t\r\n')) FROM unnest(p_names) AS names(name))
+    )
+    OR md5(btrim(tasks.prompt, E' \t\r\n')) = ANY (
+      ARRAY(SELECT md5(btrim(prompt, E' \t\r\n')) FROM unnest(p_prompts) AS prompts(prompt))
+    );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.find_conflicting_tasks(TEXT[], TEXT[]) TO authenticated;
+
+COMMENT ON FUNCTION public.find_conflicting_tasks(TEXT[], TEXT[]) IS 'Tasks whose name or prompt matches one of the given names or prompts, for bulk upload conflict checks';